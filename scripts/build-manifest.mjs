@@ -0,0 +1,141 @@
+// Writes public/data/manifest.json describing every dataset file: format, schema version, row count,
+// size and content hash. The viewer checks the files against it when loading and uses the hashes to
+// reuse files cached in the browser.
+//
+// Schema versions are kept from the existing manifest (default 1); bump them by hand when a file's
+// columns change in a way the viewer has to know about.
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+
+const MANIFEST_VERSION = 1;
+const FORMATS = { '.parquet': 'parquet', '.csv': 'csv', '.geojson': 'geojson' };
+
+const dataDir = join(process.cwd(), 'public', 'data');
+const manifestPath = join(dataDir, 'manifest.json');
+
+// Minimal Thrift compact-protocol reader: just enough to pull num_rows out of a parquet footer.
+const readParquetRowCount = bytes => {
+  if (bytes.toString('ascii', bytes.length - 4) !== 'PAR1') {
+    throw new Error('not a parquet file');
+  }
+  const footerLength = bytes.readUInt32LE(bytes.length - 8);
+  let pos = bytes.length - 8 - footerLength;
+
+  const varint = () => {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = bytes[pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  };
+  const zigzag = () => {
+    const value = varint();
+    return (value >> 1n) ^ -(value & 1n);
+  };
+
+  const skip = type => {
+    switch (type) {
+      case 1: case 2: return;
+      case 3: pos += 1; return;
+      case 4: case 5: case 6: varint(); return;
+      case 7: pos += 8; return;
+      case 8: {
+        const length = Number(varint());
+        pos += length;
+        return;
+      }
+      case 9: case 10: {
+        const header = bytes[pos++];
+        const size = (header >> 4) === 15 ? Number(varint()) : header >> 4;
+        for (let i = 0; i < size; i++) {
+          if ((header & 0x0f) === 1 || (header & 0x0f) === 2) pos += 1;
+          else skip(header & 0x0f);
+        }
+        return;
+      }
+      case 11: {
+        const size = Number(varint());
+        if (size === 0) return;
+        const types = bytes[pos++];
+        for (let i = 0; i < size; i++) {
+          skip(types >> 4);
+          skip(types & 0x0f);
+        }
+        return;
+      }
+      case 12: skipStruct(); return;
+      default: throw new Error(`unknown thrift type ${type}`);
+    }
+  };
+  const skipStruct = () => {
+    for (;;) {
+      const header = bytes[pos++];
+      if (header === 0) return;
+      if ((header >> 4) === 0) zigzag();
+      skip(header & 0x0f);
+    }
+  };
+
+  // FileMetaData: 1 version, 2 schema, 3 num_rows, ...
+  let fieldId = 0;
+  for (;;) {
+    const header = bytes[pos++];
+    if (header === 0) break;
+    fieldId = (header >> 4) === 0 ? Number(zigzag()) : fieldId + (header >> 4);
+    if (fieldId === 3) return Number(zigzag());
+    skip(header & 0x0f);
+  }
+  throw new Error('num_rows missing from parquet footer');
+};
+
+// Records are line breaks outside quoted fields; the header line is not counted.
+const countCsvRows = text => {
+  let records = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') quoted = !quoted;
+    else if (char === '\n' && !quoted) records += 1;
+  }
+  if (text.length > 0 && !text.endsWith('\n')) records += 1;
+  return Math.max(records - 1, 0);
+};
+
+const countRows = (format, bytes) => {
+  if (format === 'parquet') return readParquetRowCount(bytes);
+  if (format === 'csv') return countCsvRows(bytes.toString('utf8'));
+  return JSON.parse(bytes.toString('utf8')).features.length;
+};
+
+const previous = existsSync(manifestPath) ? JSON.parse(readFileSync(manifestPath, 'utf8')) : null;
+const previousSchemaVersions = new Map((previous?.datasets ?? []).map(entry => [entry.file, entry.schema_version]));
+
+const datasets = readdirSync(dataDir)
+  .filter(file => FORMATS[extname(file)])
+  .sort()
+  .map(file => {
+    const bytes = readFileSync(join(dataDir, file));
+    const format = FORMATS[extname(file)];
+    return {
+      name: basename(file, extname(file)),
+      file,
+      format,
+      schema_version: previousSchemaVersions.get(file) ?? 1,
+      rows: countRows(format, bytes),
+      bytes: bytes.length,
+      sha256: createHash('sha256').update(bytes).digest('hex'),
+    };
+  });
+
+// The dataset version is derived from the file hashes, so it only changes when the data does.
+const version = createHash('sha256')
+  .update(datasets.map(entry => `${entry.file}:${entry.sha256}`).join('\n'))
+  .digest('hex')
+  .slice(0, 16);
+
+writeFileSync(manifestPath, `${JSON.stringify({ manifest_version: MANIFEST_VERSION, version, datasets }, null, 2)}\n`);
+console.log(`Wrote ${manifestPath} (${datasets.length} datasets, version ${version})`);
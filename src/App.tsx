@@ -1,23 +1,58 @@
 import { useState, useEffect } from 'react';
-import { MapView } from './components/MapView';
+import {
+  MapView,
+  MapRenderer,
+  MAP_RENDERERS,
+  SegmentColorMode,
+  SEGMENT_COLOR_MODES,
+  StationClustering,
+  STATION_CLUSTERINGS,
+} from './components/MapView';
 import { YearControls } from './components/YearControls';
 import { DatabaseProvider, useDatabase } from './components/DatabaseContext';
 import { LeafletLoader } from './components/LeafletLoader';
-import { Loader2 } from 'lucide-react';
+import { TimeResolution } from './components/dates';
+import { SourcesPanel } from './components/SourcesPanel';
+import { TimetablesPanel } from './components/TimetablesPanel';
+import { DatasetPanel } from './components/DatasetPanel';
+import { LoadErrors } from './components/LoadErrors';
+import { LoadingScreen, RebuildingOverlay } from './components/LoadingScreen';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
 
 function AppContent() {
-  const [currentYear, setCurrentYear] = useState(1989);
-  const { isLoading, error } = useDatabase();
+  const [currentDate, setCurrentDate] = useState('1989-01-01');
+  const [resolution, setResolution] = useState<TimeResolution>('year');
+  const [colorMode, setColorMode] = useState<SegmentColorMode>('state');
+  const [renderer, setRenderer] = useState<MapRenderer>('svg');
+  const [clustering, setClustering] = useState<StationClustering>('keep-changes');
+  const [activePanel, setActivePanel] = useState<'sources' | 'timetables' | 'dataset' | 'diagnostics' | null>(null);
+  const [selectedTimetableId, setSelectedTimetableId] = useState<string | null>(null);
+  const { isLoading, isRebuilding, error, timetables, localDatasets, loadLocalFiles, resetLocalFiles } = useDatabase();
+
+  // Dataset files can be dropped anywhere on the app; the dataset panel opens to show the result.
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    setActivePanel('dataset');
+    void loadLocalFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const selectedTimetable = timetables.find(timetable => timetable.timetable_id === selectedTimetableId);
+  const timetableRange = selectedTimetable
+    ? {
+        from: Number(selectedTimetable.valid_from?.slice(0, 4)) || 1832,
+        to: Number(selectedTimetable.valid_to?.slice(0, 4)) || 1989,
+      }
+    : null;
 
   if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-screen">
-        <div className="text-center">
-          <Loader2 className="w-12 h-12 animate-spin mx-auto mb-4" />
-          <p>Loading database...</p>
-        </div>
-      </div>
-    );
+    return <LoadingScreen />;
   }
 
   if (error) {
@@ -25,14 +60,14 @@ function AppContent() {
       <div className="flex items-center justify-center h-screen">
         <div className="text-center text-red-600">
           <p>Error loading database:</p>
-          <p>{error}</p>
+          <p style={{ whiteSpace: 'pre-line' }}>{error}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className="h-screen flex flex-col">
+    <div className="h-screen flex flex-col" onDragOver={handleDragOver} onDrop={handleDrop}>
       <header className="bg-slate-800 text-white p-4 shadow-lg z-10">
         <div className="flex items-start gap-3">
           <div className="flex-1">
@@ -41,6 +76,34 @@ function AppContent() {
               Internal tool for database construction
             </p>
           </div>
+          <button
+            type="button"
+            onClick={() => setActivePanel(prev => (prev === 'timetables' ? null : 'timetables'))}
+            className="px-4 py-2 bg-slate-700 rounded hover:bg-slate-600 text-sm"
+          >
+            Timetables
+          </button>
+          <button
+            type="button"
+            onClick={() => setActivePanel(prev => (prev === 'sources' ? null : 'sources'))}
+            className="px-4 py-2 bg-slate-700 rounded hover:bg-slate-600 text-sm"
+          >
+            Sources
+          </button>
+          <button
+            type="button"
+            onClick={() => setActivePanel(prev => (prev === 'dataset' ? null : 'dataset'))}
+            className="px-4 py-2 bg-slate-700 rounded hover:bg-slate-600 text-sm"
+          >
+            Dataset
+          </button>
+          <button
+            type="button"
+            onClick={() => setActivePanel(prev => (prev === 'diagnostics' ? null : 'diagnostics'))}
+            className="px-4 py-2 bg-slate-700 rounded hover:bg-slate-600 text-sm"
+          >
+            Diagnostics
+          </button>
           <div className="w-[32px] flex justify-end">
             <button
               type="button"
@@ -56,40 +119,134 @@ function AppContent() {
           </div>
         </div>
       </header>
-      
+
+      <LoadErrors />
+
+      {localDatasets.length > 0 && (
+        <div
+          className="flex items-center gap-3 text-sm px-4 py-2"
+          style={{ background: '#fef3c7', color: '#92400e', borderBottom: '1px solid #fcd34d' }}
+        >
+          <span className="flex-1">
+            <strong>Unpublished data:</strong>{' '}
+            {localDatasets.map(local => `${local.table} (${local.file})`).join(', ')} loaded from local files.
+          </span>
+          <button
+            type="button"
+            onClick={() => void resetLocalFiles()}
+            className="rounded px-4 py-2"
+            style={{ background: '#92400e', color: '#fff' }}
+          >
+            Reset to published data
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 relative">
-        <MapView currentYear={currentYear} />
+        <MapView
+          currentDate={currentDate}
+          resolution={resolution}
+          colorMode={colorMode}
+          renderer={renderer}
+          clustering={clustering}
+          highlightedTimetableId={selectedTimetableId}
+        />
+        {isRebuilding && <RebuildingOverlay />}
+        {activePanel === 'sources' && <SourcesPanel onClose={() => setActivePanel(null)} />}
+        {activePanel === 'dataset' && <DatasetPanel onClose={() => setActivePanel(null)} />}
+        {activePanel === 'diagnostics' && <DiagnosticsPanel onClose={() => setActivePanel(null)} />}
+        {activePanel === 'timetables' && (
+          <TimetablesPanel
+            selectedTimetableId={selectedTimetableId}
+            onSelectTimetable={setSelectedTimetableId}
+            onClose={() => setActivePanel(null)}
+          />
+        )}
       </div>
 
       <div className="bg-slate-100 border-t border-slate-300 p-4">
         <YearControls 
-          currentYear={currentYear}
-          onYearChange={setCurrentYear}
+          currentDate={currentDate}
+          onDateChange={setCurrentDate}
+          resolution={resolution}
+          onResolutionChange={setResolution}
           minYear={1832}
           maxYear={1989}
+          highlightRange={timetableRange}
         />
         
         <div className="mt-3 flex gap-4 flex-wrap text-sm">
-          <div className="flex items-center gap-2">
-            <div className="w-8 h-1 bg-black"></div>
-            <span>Existing segments</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-8 h-1 bg-green-600"></div>
-            <span>Newly constructed</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-8 h-1 bg-orange-600"></div>
-            <span>Electrified</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-8 h-1 bg-purple-600"></div>
-            <span>Gauge change</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-8 h-1 bg-red-600"></div>
-            <span>Closed</span>
-          </div>
+          <label className="flex items-center gap-2">
+            <span>Color segments by</span>
+            <select
+              value={colorMode}
+              onChange={e => setColorMode(e.target.value as SegmentColorMode)}
+              className="rounded border border-slate-300"
+              style={{ padding: '0.125rem 0.5rem', background: '#fff' }}
+            >
+              {SEGMENT_COLOR_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span>Station clusters</span>
+            <select
+              value={clustering}
+              onChange={e => setClustering(e.target.value as StationClustering)}
+              className="rounded border border-slate-300"
+              style={{ padding: '0.125rem 0.5rem', background: '#fff' }}
+            >
+              {STATION_CLUSTERINGS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span>Renderer</span>
+            <select
+              value={renderer}
+              onChange={e => setRenderer(e.target.value as MapRenderer)}
+              className="rounded border border-slate-300"
+              style={{ padding: '0.125rem 0.5rem', background: '#fff' }}
+            >
+              {MAP_RENDERERS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {colorMode === 'state' && (
+            <>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-1 bg-black"></div>
+                <span>Existing segments</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-1 bg-green-600"></div>
+                <span>Newly constructed</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-1" style={{ background: '#0d9488' }}></div>
+                <span>Reopened</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-1 bg-orange-600"></div>
+                <span>Electrified</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-1 bg-purple-600"></div>
+                <span>Gauge change</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-1 bg-red-600"></div>
+                <span>Closed</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8" style={{ borderTop: '2px dashed #a8a29e' }}></div>
+                <span>Undated</span>
+              </div>
+            </>
+          )}
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 rounded-full bg-black"></div>
             <span>Station</span>
@@ -4,6 +4,70 @@ import duckdbMvpWasm from '@duckdb/duckdb-wasm/dist/duckdb-mvp.wasm?url';
 import duckdbMvpWorker from '@duckdb/duckdb-wasm/dist/duckdb-browser-mvp.worker.js?url';
 import duckdbEhWasm from '@duckdb/duckdb-wasm/dist/duckdb-eh.wasm?url';
 import duckdbEhWorker from '@duckdb/duckdb-wasm/dist/duckdb-browser-eh.worker.js?url';
+import { Source } from './citations';
+import {
+  DatasetChecksumError,
+  DatasetFetchError,
+  DatasetManifest,
+  DownloadProgressHandler,
+  ManifestDataset,
+  fetchDatasetFile,
+  loadManifest,
+  pruneDatasetCache,
+  registerDatasetBuffer,
+} from './datasetCache';
+import {
+  DATASET_SCHEMAS,
+  DatasetSchema,
+  DatasetSchemaError,
+  ResolvedDataset,
+  checkColumns,
+  checkManifestEntry,
+  checkManifestVersion,
+  checkRowCount,
+  datasetFile,
+  datasetReader,
+  emptyReader,
+  matchDatasetFile,
+  missingFromManifest,
+  resolveFromManifest,
+} from './datasetSchema';
+import { Period, TimeResolution, adjacentDates, isIsoDate, periodFor } from './dates';
+import { normalizeLineFeatures, undecidedAxisOrder } from './lineGeometry';
+import { createLruCache } from './lruCache';
+import { segmentBox } from './packedRows';
+import { BoundingBox, GridIndex, createGridIndex, pointBox } from './spatialIndex';
+import {
+  Event,
+  Line,
+  LineSegment,
+  Segment,
+  SegmentMetric,
+  SegmentState,
+  SegmentWithState,
+  Station,
+  StationName,
+  StationWithState,
+  Timetable,
+} from './models';
+import {
+  QueryRunner,
+  allEvents,
+  allLineSegments,
+  allLines,
+  allSegmentMetrics,
+  allSegmentStates,
+  allSegments,
+  allSources,
+  allStationNames,
+  allStations,
+  allTimetables,
+  createDerivedTables,
+  createQueryRunner,
+  segmentsForPeriod,
+  stationsForPeriod,
+} from './queries';
+import { RowDecoder, createRowDecoder } from './rowDecoder';
 
 const DUCKDB_BUNDLES: duckdb.DuckDBBundles = {
   mvp: {
@@ -16,62 +80,66 @@ const DUCKDB_BUNDLES: duckdb.DuckDBBundles = {
   },
 };
 
-interface Station {
-  station_id: string;
-  name_primary: string;
-  name_latin?: string;
-  lat: number;
-  lon: number;
-  country_code?: string;
-  esr_code?: string;
-  osm_node_id?: string;
-  osm_way_id?: string;
-  osm_relation_id?: string;
-  wikidata_id?: string;
-  wikipedia_ru?: string;
-  parovoz_url?: string;
-  railwayz_id?: string;
-  current_status: string;
-  geometry_quality?: string;
-  notes?: string;
-  created_at?: string;
-  updated_at?: string;
+// Number of periods whose query results are kept, including the prefetched neighbours.
+const PERIOD_CACHE_SIZE = 12;
+
+interface PeriodIndex {
+  stations: GridIndex<StationWithState>;
+  segments: GridIndex<SegmentWithState>;
+}
+
+// Spatial indexes of cached period results, built on the first viewport query for the period.
+const periodIndexes = new WeakMap<PeriodData, PeriodIndex>();
+
+interface TableLoadError {
+  table: string;
+  file: string;
+  stage: 'manifest' | 'fetch' | 'parse' | 'schema' | 'build';
+  message: string;
+  // HTTP status of a failed download.
+  status?: number;
+  // Size of the downloaded file, when it arrived but could not be used.
+  bytes?: number;
+}
+
+interface StageTiming {
+  id: string;
+  label: string;
+  startedAt: number;
+  durationMs?: number;
+}
+
+interface FileProgress {
+  file: string;
+  receivedBytes: number;
+  totalBytes?: number;
+  fromCache: boolean;
+  startedAt: number;
+  durationMs?: number;
 }
 
-interface StationName {
-  station_id: string;
-  name: string;
-  language: string;
-  valid_from?: string;
-  valid_to?: string;
-  name_type?: string;
-  source_id?: string;
-  notes?: string;
+interface LoadProgress {
+  stages: StageTiming[];
+  files: FileProgress[];
 }
 
-interface Event {
-  event_id: string;
-  event_type: string;
-  date: string;
-  date_precision?: string;
-  line_id?: string;
-  station_id?: string;
-  segment_id?: string;
-  description?: string;
-  source_id?: string;
-  source_page?: string;
-  notes?: string;
+type FileProgressHandler = (file: string, progress: Parameters<DownloadProgressHandler>[0]) => void;
+
+interface LoadedDataset {
+  dataset: ResolvedDataset;
+  entry?: ManifestDataset;
+  buffer?: ArrayBuffer;
+  failure?: TableLoadError;
+}
+
+interface PeriodData {
+  stations: StationWithState[];
+  segments: SegmentWithState[];
 }
 
-interface Segment {
-  segment_id: string;
-  from_station_id: string;
-  to_station_id: string;
-  geometry: [number, number][];
-  geometry_source?: string;
-  geometry_quality?: string;
-  is_current?: boolean;
-  notes?: string;
+interface LocalDataset {
+  table: string;
+  file: string;
 }
 
 interface DatabaseContextType {
@@ -79,18 +147,31 @@ interface DatabaseContextType {
   stationNames: StationName[];
   events: Event[];
   segments: Segment[];
+  lines: Line[];
+  lineSegments: LineSegment[];
+  segmentStates: SegmentState[];
+  segmentMetrics: SegmentMetric[];
+  sources: Source[];
+  timetables: Timetable[];
   isLoading: boolean;
+  // Tables are being rebuilt after the initial load (local files, a retried table); the map stays
+  // mounted and shows the progress over it.
+  isRebuilding: boolean;
   error: string | null;
-  queryDataForYear: (year: number) => Promise<{ stations: StationWithState[]; segments: SegmentWithState[] }>;
-}
-
-interface StationWithState extends Station {
-  state: 'planned' | 'existing' | 'new' | 'electrified' | 'gauge_change' | 'closed';
-  alternative_names: { [key: string]: string };
-}
-
-interface SegmentWithState extends Segment {
-  state: 'planned' | 'existing' | 'new' | 'electrified' | 'gauge_change' | 'closed';
+  // Tables currently built from files dropped by the user instead of the published ones.
+  localDatasets: LocalDataset[];
+  localDatasetError: string | null;
+  // Tables that could not be loaded; they are present but empty.
+  loadErrors: TableLoadError[];
+  // Stages and downloads of the latest (re)load, kept afterwards for the diagnostics panel.
+  loadProgress: LoadProgress;
+  retryTable: (table: string) => Promise<void>;
+  loadLocalFiles: (files: File[]) => Promise<void>;
+  resetLocalFiles: () => Promise<void>;
+  queryDataForYear: (year: number) => Promise<PeriodData>;
+  queryDataForDate: (date: string, resolution?: TimeResolution) => Promise<PeriodData>;
+  // Like queryDataForDate, limited to the stations and segments whose extent meets the box.
+  queryDataForBounds: (date: string, resolution: TimeResolution, bounds: BoundingBox) => Promise<PeriodData>;
 }
 
 const DatabaseContext = createContext<DatabaseContextType>({
@@ -98,9 +179,25 @@ const DatabaseContext = createContext<DatabaseContextType>({
   stationNames: [],
   events: [],
   segments: [],
+  lines: [],
+  lineSegments: [],
+  segmentStates: [],
+  segmentMetrics: [],
+  sources: [],
+  timetables: [],
   isLoading: true,
+  isRebuilding: false,
   error: null,
+  localDatasets: [],
+  localDatasetError: null,
+  loadErrors: [],
+  loadProgress: { stages: [], files: [] },
+  retryTable: async () => {},
+  loadLocalFiles: async () => {},
+  resetLocalFiles: async () => {},
   queryDataForYear: async () => ({ stations: [], segments: [] }),
+  queryDataForDate: async () => ({ stations: [], segments: [] }),
+  queryDataForBounds: async () => ({ stations: [], segments: [] }),
 });
 
 export const useDatabase = () => useContext(DatabaseContext);
@@ -109,75 +206,58 @@ interface DatabaseProviderProps {
   children: ReactNode;
 }
 
-const buildAltNameMap = (names: any): { [key: string]: string } => {
-  if (!names || !Array.isArray(names)) return {};
-
-  const altNames: Record<string, string> = {};
-  const langCounts: Record<string, number> = {};
-
-  names.forEach(entry => {
-    const name = (entry as any)?.name;
-    const language = (entry as any)?.language;
-    if (!name || !language) return;
-
-    langCounts[language] = (langCounts[language] ?? 0) + 1;
-    const suffix = langCounts[language] > 1 ? `_${langCounts[language] - 1}` : '';
-    altNames[`name:${language}${suffix}`] = name;
-  });
-
-  return altNames;
-};
-
-const normalizeGeometry = (raw: any): [number, number][] => {
-  if (!raw) return [];
+// A checksum mismatch is reported like the other disagreements with manifest.json.
+const fetchFailure = (schema: DatasetSchema, file: string, err: any): TableLoadError => ({
+  table: schema.name,
+  file,
+  stage: err instanceof DatasetChecksumError ? 'manifest' : 'fetch',
+  message: err?.message || String(err),
+  status: err instanceof DatasetFetchError ? err.status : undefined,
+  bytes: err instanceof DatasetChecksumError ? err.bytes : undefined,
+});
 
-  // Accept JSON-stringified geometry arrays or Feature-like payloads.
-  let data: any = raw;
-  if (typeof raw === 'string') {
+// Fetches one table's published file. Failures are returned rather than thrown, so one missing
+// file does not stop the other tables from loading.
+const fetchPublishedDataset = async (
+  base: string,
+  schema: DatasetSchema,
+  manifest: DatasetManifest | null,
+  onProgress?: FileProgressHandler,
+): Promise<LoadedDataset> => {
+  if (manifest) {
+    const resolved = resolveFromManifest(schema, manifest);
+    if (!resolved) {
+      const file = datasetFile(schema, schema.formats[0]);
+      return {
+        dataset: { schema, file, format: schema.formats[0] },
+        failure: { table: schema.name, file, stage: 'manifest', message: missingFromManifest(schema) },
+      };
+    }
+    const problems = checkManifestEntry(resolved.dataset, resolved.entry);
+    if (problems.length > 0) {
+      return { ...resolved, failure: { table: schema.name, file: resolved.dataset.file, stage: 'manifest', message: problems.join('\n') } };
+    }
     try {
-      data = JSON.parse(raw);
-    } catch {
-      // Try to sanitize simple GeoJSON-like strings that use single quotes or unquoted geometry types.
-      try {
-        const sanitized = raw
-          .replace(/'/g, '"')
-          .replace(/\b(LineString|MultiLineString|Polygon|MultiPolygon|Point|MultiPoint)\b/g, '"$1"');
-        data = JSON.parse(sanitized);
-      } catch {
-        return [];
-      }
+      const file = resolved.dataset.file;
+      return { ...resolved, buffer: await fetchDatasetFile(base, file, manifest, progress => onProgress?.(file, progress)) };
+    } catch (err) {
+      return { ...resolved, failure: fetchFailure(schema, resolved.dataset.file, err) };
     }
   }
 
-  // Allow GeoJSON Feature/FeatureCollection/Geometry objects by pulling coordinates.
-  if (data && typeof data === 'object' && !Array.isArray(data)) {
-    if (data.type === 'Feature' && data.geometry) {
-      data = data.geometry.coordinates;
-    } else if (data.type === 'FeatureCollection' && Array.isArray(data.features) && data.features[0]?.geometry) {
-      data = data.features[0].geometry.coordinates;
-    } else if (data.type && data.coordinates) {
-      data = data.coordinates;
+  // Without a manifest, try each accepted format in order of preference.
+  let lastFailure: TableLoadError | undefined;
+  for (const format of schema.formats) {
+    const file = datasetFile(schema, format);
+    try {
+      const buffer = await fetchDatasetFile(base, file, null, progress => onProgress?.(file, progress));
+      return { dataset: { schema, file, format }, buffer };
+    } catch (err) {
+      lastFailure = lastFailure ?? fetchFailure(schema, file, err);
     }
   }
-
-  if (!Array.isArray(data)) return [];
-
-  return data
-    .map((pair: any) => {
-      if (Array.isArray(pair)) {
-        return [Number(pair[0]), Number(pair[1])] as [number, number];
-      }
-      if (pair && typeof pair === 'object') {
-        if ('f0' in pair && 'f1' in pair) {
-          return [Number((pair as any).f0), Number((pair as any).f1)] as [number, number];
-        }
-        if ('lat' in pair && 'lon' in pair) {
-          return [Number((pair as any).lat), Number((pair as any).lon)] as [number, number];
-        }
-      }
-      return [NaN, NaN] as [number, number];
-    })
-    .filter(([lat, lon]) => Number.isFinite(lat) && Number.isFinite(lon));
+  const format = schema.formats[0];
+  return { dataset: { schema, file: datasetFile(schema, format), format }, failure: lastFailure };
 };
 
 export function DatabaseProvider({ children }: DatabaseProviderProps) {
@@ -185,137 +265,379 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   const [stationNames, setStationNames] = useState<StationName[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [segments, setSegments] = useState<Segment[]>([]);
+  const [lines, setLines] = useState<Line[]>([]);
+  const [lineSegments, setLineSegments] = useState<LineSegment[]>([]);
+  const [segmentStates, setSegmentStates] = useState<SegmentState[]>([]);
+  const [segmentMetrics, setSegmentMetrics] = useState<SegmentMetric[]>([]);
+  const [sources, setSources] = useState<Source[]>([]);
+  const [timetables, setTimetables] = useState<Timetable[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isRebuilding, setIsRebuilding] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const [loadErrors, setLoadErrors] = useState<TableLoadError[]>([]);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({ stages: [], files: [] });
+  const [localDatasets, setLocalDatasets] = useState<LocalDataset[]>([]);
+  const [localDatasetError, setLocalDatasetError] = useState<string | null>(null);
+
+  const dbRef = useRef<duckdb.AsyncDuckDB | null>(null);
   const connectionRef = useRef<duckdb.AsyncDuckDBConnection | null>(null);
+  const queriesRef = useRef<QueryRunner | null>(null);
+  const rowDecoderRef = useRef<RowDecoder | null>(null);
+  const periodCacheRef = useRef(createLruCache<string, Promise<PeriodData>>(PERIOD_CACHE_SIZE));
+  // Counts queryDataForDate calls, so prefetches for a period the slider has already left are skipped.
+  const periodRequestRef = useRef(0);
+  // Bumped when a rebuild starts and once its tables are complete, so period results read in between
+  // (from half-built tables) are not kept in the cache and stop the prefetches that read them.
+  const tablesGenerationRef = useRef(0);
+  // Files fetched from the deployment, kept so local overrides can be reset without refetching.
+  const bundledRef = useRef<LoadedDataset[]>([]);
+  const localRef = useRef<LoadedDataset[]>([]);
+  const baseRef = useRef('/');
+  const manifestRef = useRef<DatasetManifest | null>(null);
+  const manifestFailuresRef = useRef<TableLoadError[]>([]);
+  const progressRef = useRef<LoadProgress>({ stages: [], files: [] });
+
+  const updateProgress = useCallback((update: (progress: LoadProgress) => LoadProgress) => {
+    progressRef.current = update(progressRef.current);
+    setLoadProgress(progressRef.current);
+  }, []);
+
+  const resetProgress = useCallback(() => updateProgress(() => ({ stages: [], files: [] })), [updateProgress]);
+
+  // Runs one loading stage and records how long it took.
+  const timeStage = useCallback(
+    async <T,>(id: string, label: string, run: () => Promise<T>) => {
+      const startedAt = performance.now();
+      updateProgress(progress => ({ ...progress, stages: [...progress.stages, { id, label, startedAt }] }));
+      try {
+        return await run();
+      } finally {
+        const durationMs = performance.now() - startedAt;
+        updateProgress(progress => ({
+          ...progress,
+          stages: progress.stages.map(stage => (stage.id === id && stage.durationMs == null ? { ...stage, durationMs } : stage)),
+        }));
+      }
+    },
+    [updateProgress],
+  );
+
+  const trackFile: FileProgressHandler = useCallback(
+    (file, { receivedBytes, totalBytes, fromCache }) => {
+      updateProgress(progress => {
+        const now = performance.now();
+        const existing = progress.files.find(entry => entry.file === file);
+        const startedAt = existing?.startedAt ?? now;
+        const done = totalBytes != null && receivedBytes >= totalBytes;
+        const next: FileProgress = {
+          file,
+          receivedBytes,
+          totalBytes,
+          fromCache,
+          startedAt,
+          durationMs: done ? now - startedAt : undefined,
+        };
+        return {
+          ...progress,
+          files: existing ? progress.files.map(entry => (entry.file === file ? next : entry)) : [...progress.files, next],
+        };
+      });
+    },
+    [updateProgress],
+  );
+
+  const downloadPublished = useCallback(
+    (schemas: DatasetSchema[]) =>
+      timeStage('download', 'Download data files', () =>
+        Promise.all(schemas.map(schema => fetchPublishedDataset(baseRef.current, schema, manifestRef.current, trackFile))),
+      ),
+    [timeStage, trackFile],
+  );
+
+  // Registers the given files and (re)builds every table from them. A table whose file is missing,
+  // does not match its schema or fails to build is created empty with the expected columns, so the
+  // rest of the app keeps working; the failures are returned and listed in loadErrors.
+  const buildTables = useCallback(async (datasets: LoadedDataset[], initialFailures: TableLoadError[] = []) => {
+    const db = dbRef.current;
+    const conn = connectionRef.current;
+    const queries = queriesRef.current;
+    if (!db || !conn || !queries) {
+      throw new Error('DuckDB is not initialized');
+    }
+    const failures = [...initialFailures];
+    // Prepared statements and cached periods are bound to the tables about to be replaced.
+    tablesGenerationRef.current++;
+    await queries.reset();
+    periodCacheRef.current.clear();
+
+    // Check every file before building tables, so a mismatch is reported by file and column
+    // rather than surfacing as a binder error from one of the queries below.
+    const readers: Record<string, string> = {};
+    const byTable = new Map(datasets.map(item => [item.dataset.schema.name, item]));
+    await timeStage('check', 'Check files against their schemas', async () => {
+      for (const { dataset, entry, buffer, failure } of datasets) {
+        if (failure || !buffer) {
+          if (failure) failures.push(failure);
+          continue;
+        }
+
+        const fail = (stage: TableLoadError['stage'], message: string) =>
+          failures.push({ table: dataset.schema.name, file: dataset.file, stage, message, bytes: buffer.byteLength });
+
+        try {
+          let problems: string[];
+          if (dataset.format === 'geojson') {
+            const parsed = JSON.parse(new TextDecoder().decode(buffer));
+            const features: any[] = parsed.features ?? [];
+            const properties = new Set(features.flatMap(feature => Object.keys(feature.properties ?? {})));
+            problems = [...checkColumns(dataset, [...properties]), ...checkRowCount(dataset, entry, features.length)];
+            // DuckDB reads the file with every geometry turned into a [lat, lon] MultiLineString, so
+            // spec-compliant [lon, lat] exports and the viewer's own [lat, lon] files build alike.
+            const normalized = normalizeLineFeatures(parsed);
+            if (normalized) {
+              await db.registerFileText(dataset.file, JSON.stringify(normalized.collection));
+            } else {
+              problems.push(undecidedAxisOrder(dataset.file));
+            }
+            if (problems.length === 0) readers[dataset.schema.name] = datasetReader(dataset);
+          } else {
+            await registerDatasetBuffer(db, dataset.file, buffer);
+            const sniffReader =
+              dataset.format === 'csv' ? `read_csv('${dataset.file}', header = true, all_varchar = true)` : datasetReader(dataset);
+            const description = await conn.query(`DESCRIBE SELECT * FROM ${sniffReader};`);
+            const columns = description.toArray().map((row: any) => String(row.column_name));
+            const count = await conn.query(`SELECT COUNT(*) AS row_count FROM ${sniffReader};`);
+            problems = [...checkColumns(dataset, columns), ...checkRowCount(dataset, entry, Number(count.toArray()[0].row_count))];
+            if (problems.length === 0) readers[dataset.schema.name] = datasetReader(dataset, columns);
+          }
+          if (problems.length > 0) fail('schema', problems.join('\n'));
+        } catch (err: any) {
+          fail('parse', err?.message || String(err));
+        }
+      }
+    });
+
+    const createTable = (table: string, buildSql: (reader: string) => string) =>
+      timeStage(`build:${table}`, `Build ${table} table`, async () => {
+        const item = byTable.get(table);
+        const reader = readers[table];
+        if (reader) {
+          try {
+            await conn.query(buildSql(reader));
+            return;
+          } catch (err: any) {
+            failures.push({
+              table,
+              file: item?.dataset.file ?? table,
+              stage: 'build',
+              message: err?.message || String(err),
+              bytes: item?.buffer?.byteLength,
+            });
+          }
+        }
+        const schema = DATASET_SCHEMAS.find(candidate => candidate.name === table)!;
+        await conn.query(buildSql(emptyReader(schema, item?.dataset.format ?? schema.formats[0])));
+      });
+
+    await createTable('stations', reader => `CREATE OR REPLACE TABLE stations AS SELECT * FROM ${reader};`);
+    await createTable('station_names', reader => `
+      CREATE OR REPLACE TABLE station_names AS
+      SELECT
+        station_id::VARCHAR AS station_id,
+        name::VARCHAR AS name,
+        language::VARCHAR AS language,
+        valid_from::VARCHAR AS valid_from,
+        valid_to::VARCHAR AS valid_to,
+        name_type::VARCHAR AS name_type,
+        source_id::VARCHAR AS source_id,
+        notes::VARCHAR AS notes
+      FROM ${reader};
+    `);
+    await createTable('events', reader => `CREATE OR REPLACE TABLE events AS SELECT * FROM ${reader};`);
+    await createTable('segments', reader => `
+      CREATE OR REPLACE TABLE segments AS
+      SELECT 
+        feature['properties']['segment_id']::VARCHAR AS segment_id,
+        feature['properties']['from_station_id']::VARCHAR AS from_station_id,
+        feature['properties']['to_station_id']::VARCHAR AS to_station_id,
+        to_json(feature['geometry'])::VARCHAR AS geometry,
+        feature['properties']['geometry_source'] AS geometry_source,
+        feature['properties']['geometry_quality'] AS geometry_quality,
+        feature['properties']['is_current'] AS is_current,
+        feature['properties']['notes'] AS notes
+      FROM ${reader} AS root,
+          UNNEST(root.features) AS t(feature)   -- 👈 alias column as "feature"
+      WHERE feature['properties']['segment_id'] IS NOT NULL;
+    `);
+    // Columns are cast explicitly: empty exports store every column with the parquet NULL type.
+    await createTable('lines', reader => `
+      CREATE OR REPLACE TABLE lines AS
+      SELECT
+        line_id::VARCHAR AS line_id,
+        name_primary::VARCHAR AS name_primary,
+        name_latin::VARCHAR AS name_latin,
+        gauge::VARCHAR AS gauge,
+        TRY_CAST(initial_open_year AS INTEGER) AS initial_open_year,
+        operator::VARCHAR AS operator,
+        country_historic::VARCHAR AS country_historic,
+        notes::VARCHAR AS notes
+      FROM ${reader}
+      WHERE line_id IS NOT NULL;
+    `);
+    await createTable('line_segments', reader => `
+      CREATE OR REPLACE TABLE line_segments AS
+      SELECT
+        line_id::VARCHAR AS line_id,
+        segment_id::VARCHAR AS segment_id,
+        valid_from::VARCHAR AS valid_from,
+        valid_to::VARCHAR AS valid_to,
+        source_id::VARCHAR AS source_id,
+        notes::VARCHAR AS notes
+      FROM ${reader}
+      WHERE line_id IS NOT NULL AND segment_id IS NOT NULL;
+    `);
+    await createTable('segment_states', reader => `
+      CREATE OR REPLACE TABLE segment_states AS
+      SELECT
+        segment_state_id::VARCHAR AS segment_state_id,
+        segment_id::VARCHAR AS segment_id,
+        valid_from::VARCHAR AS valid_from,
+        valid_to::VARCHAR AS valid_to,
+        TRY_CAST(gauge_mm AS INTEGER) AS gauge_mm,
+        TRY_CAST(track_count AS INTEGER) AS track_count,
+        TRY_CAST(electrified AS BOOLEAN) AS electrified,
+        electrification_system::VARCHAR AS electrification_system,
+        TRY_CAST(electrification_voltage_kV AS DOUBLE) AS electrification_voltage_kv,
+        power_supply_type::VARCHAR AS power_supply_type,
+        TRY_CAST(max_speed_kmh AS DOUBLE) AS max_speed_kmh,
+        signalling_system::VARCHAR AS signalling_system,
+        ownership_type::VARCHAR AS ownership_type,
+        source_id::VARCHAR AS source_id,
+        source_detail::VARCHAR AS source_detail,
+        notes::VARCHAR AS notes
+      FROM ${reader}
+      WHERE segment_id IS NOT NULL;
+    `);
+    await createTable('segment_metrics', reader => `
+      CREATE OR REPLACE TABLE segment_metrics AS
+      SELECT
+        segment_metric_id::VARCHAR AS segment_metric_id,
+        segment_id::VARCHAR AS segment_id,
+        valid_from::VARCHAR AS valid_from,
+        valid_to::VARCHAR AS valid_to,
+        TRY_CAST(length_km AS DOUBLE) AS length_km,
+        length_source::VARCHAR AS length_source,
+        length_method::VARCHAR AS length_method,
+        TRY_CAST(passenger_time_min AS DOUBLE) AS passenger_time_min,
+        TRY_CAST(express_time_min AS DOUBLE) AS express_time_min,
+        TRY_CAST(freight_time_min AS DOUBLE) AS freight_time_min,
+        timetable_id::VARCHAR AS timetable_id,
+        speed_class::VARCHAR AS speed_class,
+        notes::VARCHAR AS notes
+      FROM ${reader}
+      WHERE segment_id IS NOT NULL;
+    `);
+    await createTable('sources', reader => `
+      CREATE OR REPLACE TABLE sources AS
+      SELECT
+        source_id::VARCHAR AS source_id,
+        title::VARCHAR AS title,
+        author::VARCHAR AS author,
+        TRY_CAST(year AS INTEGER) AS year,
+        type::VARCHAR AS type,
+        details::VARCHAR AS details,
+        url::VARCHAR AS url,
+        language::VARCHAR AS language,
+        notes::VARCHAR AS notes
+      FROM ${reader}
+      WHERE source_id IS NOT NULL;
+    `);
+    await createTable('timetables', reader => `
+      CREATE OR REPLACE TABLE timetables AS
+      SELECT
+        timetable_id::VARCHAR AS timetable_id,
+        title::VARCHAR AS title,
+        valid_from::VARCHAR AS valid_from,
+        valid_to::VARCHAR AS valid_to,
+        operator::VARCHAR AS operator,
+        source_id::VARCHAR AS source_id,
+        notes::VARCHAR AS notes
+      FROM ${reader}
+      WHERE timetable_id IS NOT NULL;
+    `);
+
+    await createDerivedTables(conn);
+    tablesGenerationRef.current++;
+    periodCacheRef.current.clear();
+
+    const loaded = await timeStage('read', 'Read tables into the app', async () => ({
+      stations: await queries.run(allStations),
+      stationNames: await queries.run(allStationNames),
+      events: await queries.run(allEvents),
+      segments: await queries.run(allSegments),
+      lines: await queries.run(allLines),
+      lineSegments: await queries.run(allLineSegments),
+      segmentStates: await queries.run(allSegmentStates),
+      segmentMetrics: await queries.run(allSegmentMetrics),
+      sources: await queries.run(allSources),
+      timetables: await queries.run(allTimetables),
+    }));
+
+    setStations(loaded.stations);
+    setStationNames(loaded.stationNames);
+    setEvents(loaded.events);
+    setSegments(loaded.segments);
+    setLines(loaded.lines);
+    setLineSegments(loaded.lineSegments);
+    setSegmentStates(loaded.segmentStates);
+    setSegmentMetrics(loaded.segmentMetrics);
+    setSources(loaded.sources);
+    setTimetables(loaded.timetables);
+
+    setLoadErrors(failures);
+    return failures;
+  }, [timeStage]);
 
   useEffect(() => {
     const loadData = async () => {
       try {
         setIsLoading(true);
         setError(null);
-
-        const bundle = await duckdb.selectBundle(DUCKDB_BUNDLES);
-        const worker = new Worker(bundle.mainWorker!);
-        const logger = new duckdb.ConsoleLogger(duckdb.LogLevel.ERROR);
-        const db = new duckdb.AsyncDuckDB(logger, worker);
-        await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
-
-        const conn = await db.connect();
+        resetProgress();
+
+        const bundle = await timeStage('bundle', 'Select DuckDB bundle', () => duckdb.selectBundle(DUCKDB_BUNDLES));
+        const conn = await timeStage('instantiate', 'Start DuckDB', async () => {
+          const worker = new Worker(bundle.mainWorker!);
+          const logger = new duckdb.ConsoleLogger(duckdb.LogLevel.ERROR);
+          const db = new duckdb.AsyncDuckDB(logger, worker);
+          await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+          dbRef.current = db;
+          return db.connect();
+        });
         connectionRef.current = conn;
+        rowDecoderRef.current = createRowDecoder();
+        queriesRef.current = createQueryRunner(conn, rowDecoderRef.current);
 
         // Relax expression depth to avoid limits when aggregating JSON/structs
         await conn.query(`SET max_expression_depth TO 5000;`);
 
         const base = (import.meta as any).env?.BASE_URL || '/';
-        const [stationsRes, stationNamesRes, eventsRes, segmentsRes] = await Promise.all([
-          fetch(`${base}data/stations.parquet`),
-          fetch(`${base}data/station_names.parquet`),
-          fetch(`${base}data/events.parquet`),
-          fetch(`${base}data/segments.geojson`),
-        ]);
-
-        if (!stationsRes.ok) {
-          throw new Error(`Failed to load stations.parquet (${stationsRes.status})`);
-        }
-        if (!stationNamesRes.ok) {
-          throw new Error(`Failed to load station_names.parquet (${stationNamesRes.status})`);
-        }
-        if (!eventsRes.ok) {
-          throw new Error(`Failed to load events.parquet (${eventsRes.status})`);
+        const manifest = await timeStage('manifest', 'Read manifest', () => loadManifest(base));
+        if (!manifest) {
+          console.warn('data/manifest.json not found; loading without schema version and row count checks');
         }
-        if (!segmentsRes.ok) {
-          throw new Error(`Failed to load segments.geojson (${segmentsRes.status})`);
+        baseRef.current = base;
+        manifestRef.current = manifest;
+        manifestFailuresRef.current = manifest
+          ? checkManifestVersion(manifest).map(message => ({ table: 'manifest', file: 'manifest.json', stage: 'manifest', message }))
+          : [];
+
+        bundledRef.current = await downloadPublished(DATASET_SCHEMAS);
+        await buildTables(bundledRef.current, manifestFailuresRef.current);
+        if (manifest) {
+          void pruneDatasetCache(manifest);
         }
-
-        const [stationsBuffer, stationNamesBuffer, eventsBuffer, segmentsText] = await Promise.all([
-          stationsRes.arrayBuffer(),
-          stationNamesRes.arrayBuffer(),
-          eventsRes.arrayBuffer(),
-          segmentsRes.text(),
-        ]);
-
-        await db.registerFileBuffer('stations.parquet', new Uint8Array(stationsBuffer));
-        await db.registerFileBuffer('station_names.parquet', new Uint8Array(stationNamesBuffer));
-        await db.registerFileBuffer('events.parquet', new Uint8Array(eventsBuffer));
-        await db.registerFileText('segments.geojson', segmentsText);
-
-        await conn.query(`CREATE OR REPLACE TABLE stations AS SELECT * FROM read_parquet('stations.parquet');`);
-        await conn.query(`CREATE OR REPLACE TABLE station_names AS SELECT * FROM read_parquet('station_names.parquet');`);
-        await conn.query(`CREATE OR REPLACE TABLE events AS SELECT * FROM read_parquet('events.parquet');`);
-        await conn.query(`
-          CREATE OR REPLACE TABLE segments AS
-          SELECT 
-            feature['properties']['segment_id']::VARCHAR AS segment_id,
-            feature['properties']['from_station_id']::VARCHAR AS from_station_id,
-            feature['properties']['to_station_id']::VARCHAR AS to_station_id,
-            feature['geometry'] AS geometry,
-            feature['properties']['geometry_source'] AS geometry_source,
-            feature['properties']['geometry_quality'] AS geometry_quality,
-            feature['properties']['is_current'] AS is_current,
-            feature['properties']['notes'] AS notes
-          FROM read_json_auto('segments.geojson') AS root,
-              UNNEST(root.features) AS t(feature)   -- 👈 alias column as "feature"
-          WHERE feature['properties']['segment_id'] IS NOT NULL;
-        `);
-
-        const stationCount = await conn.query(`SELECT COUNT(*) AS cnt FROM stations;`);
-        const segmentCount = await conn.query(`SELECT COUNT(*) AS cnt FROM segments;`);
-
-        const stationsTable = await conn.query(`SELECT * FROM stations WHERE lat IS NOT NULL AND lon IS NOT NULL;`);
-        const stationNamesTable = await conn.query(`SELECT * FROM station_names WHERE station_id IS NOT NULL AND name IS NOT NULL AND language IS NOT NULL;`);
-        const eventsTable = await conn.query(`SELECT * FROM events;`);
-        const segmentsTable = await conn.query(`SELECT * FROM segments;`);
-
-        const loadedStations: Station[] = stationsTable.toArray().map((row: any) => ({
-          station_id: String(row.station_id),
-          name_primary: row.name_primary || String(row.station_id),
-          name_latin: row.name_latin || undefined,
-          lat: Number(row.lat),
-          lon: Number(row.lon),
-          country_code: row.country_code || undefined,
-          esr_code: row.esr_code || undefined,
-          osm_node_id: row.osm_node_id || undefined,
-          osm_way_id: row.osm_way_id || undefined,
-          osm_relation_id: row.osm_relation_id || undefined,
-          wikidata_id: row.wikidata_id || undefined,
-          wikipedia_ru: row.wikipedia_ru || undefined,
-          parovoz_url: row.parovoz_url || undefined,
-          railwayz_id: row.railwayz_id || undefined,
-          current_status: row.current_status || 'open',
-          geometry_quality: row.geometry_quality || undefined,
-          notes: row.notes || undefined,
-          created_at: row.created_at || undefined,
-          updated_at: row.updated_at || undefined,
-        }));
-
-        const loadedStationNames: StationName[] = stationNamesTable.toArray().map((row: any) => ({
-          station_id: String(row.station_id),
-          name: row.name,
-          language: row.language,
-          valid_from: row.valid_from || undefined,
-          valid_to: row.valid_to || undefined,
-          name_type: row.name_type || undefined,
-          source_id: row.source_id || undefined,
-          notes: row.notes || undefined,
-        }));
-
-        setStations(loadedStations);
-        setStationNames(loadedStationNames);
-        setEvents(eventsTable.toArray());
-        setSegments(
-          segmentsTable.toArray().map((row: any) => ({
-            segment_id: String(row.segment_id),
-            from_station_id: String(row.from_station_id),
-            to_station_id: String(row.to_station_id),
-            geometry: normalizeGeometry(row.geometry),
-            geometry_source: row.geometry_source || undefined,
-            geometry_quality: row.geometry_quality || undefined,
-            is_current: row.is_current || undefined,
-            notes: row.notes || undefined,
-          }))
-        );
       } catch (err: any) {
         setError(err?.message || 'Failed to initialize DuckDB');
       } finally {
@@ -327,166 +649,197 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
 
     return () => {
       (async () => {
+        await queriesRef.current?.reset();
+        queriesRef.current = null;
+        rowDecoderRef.current?.terminate();
+        rowDecoderRef.current = null;
         await connectionRef.current?.close();
         connectionRef.current = null;
       })();
     };
+  }, [buildTables, downloadPublished, resetProgress, timeStage]);
+
+  const buildWithLocal = useCallback(
+    (local: LoadedDataset[]) => {
+      const localByTable = new Map(local.map(item => [item.dataset.schema.name, item]));
+      return buildTables(
+        bundledRef.current.map(item => localByTable.get(item.dataset.schema.name) ?? item),
+        manifestFailuresRef.current,
+      );
+    },
+    [buildTables],
+  );
+
+  // Rebuilds the tables from the published files with the given local files swapped in. A local
+  // file that cannot be used is rejected: the previous set of files is restored and the failure
+  // reported next to the drop zone, as is a failure to restore them.
+  const rebuildWithLocal = useCallback(
+    async (local: LoadedDataset[]) => {
+      setIsRebuilding(true);
+      resetProgress();
+      try {
+        const localFiles = new Set(local.map(item => item.dataset.file));
+        const localFailures = (await buildWithLocal(local)).filter(failure => localFiles.has(failure.file));
+        if (localFailures.length > 0) {
+          throw new DatasetSchemaError(localFailures.map(failure => `${failure.file}: ${failure.message}`));
+        }
+        localRef.current = local;
+        setLocalDatasets(local.map(item => ({ table: item.dataset.schema.name, file: item.dataset.file.replace(/^local\//, '') })));
+        return true;
+      } catch (err: any) {
+        const message = err?.message || 'Failed to load local files';
+        setLocalDatasetError(message);
+        try {
+          await buildWithLocal(localRef.current);
+        } catch (restoreErr: any) {
+          setLocalDatasetError(`${message}\n\nRestoring the previous files failed too: ${restoreErr?.message || restoreErr}`);
+        }
+        return false;
+      } finally {
+        setIsRebuilding(false);
+      }
+    },
+    [buildWithLocal, resetProgress],
+  );
+
+  // Downloads one published file again and rebuilds the tables. The outcome only shows in that
+  // table's entry in loadErrors; the map stays up either way.
+  const retryTable = useCallback(
+    async (table: string) => {
+      const schema = DATASET_SCHEMAS.find(candidate => candidate.name === table);
+      if (!schema) return;
+      setIsRebuilding(true);
+      resetProgress();
+      try {
+        const [reloaded] = await downloadPublished([schema]);
+        bundledRef.current = bundledRef.current.map(item => (item.dataset.schema.name === table ? reloaded : item));
+        await buildWithLocal(localRef.current);
+      } catch (err: any) {
+        const file =
+          bundledRef.current.find(item => item.dataset.schema.name === table)?.dataset.file ?? datasetFile(schema, schema.formats[0]);
+        setLoadErrors(prev => [
+          ...prev.filter(failure => failure.table !== table),
+          { table, file, stage: 'build', message: err?.message || `Failed to reload ${table}` },
+        ]);
+      } finally {
+        setIsRebuilding(false);
+      }
+    },
+    [buildWithLocal, downloadPublished, resetProgress],
+  );
+
+  const loadLocalFiles = useCallback(
+    async (files: File[]) => {
+      const dropped: LoadedDataset[] = [];
+      const unknown: string[] = [];
+      for (const file of files) {
+        const match = matchDatasetFile(file.name);
+        if (!match) {
+          unknown.push(file.name);
+          continue;
+        }
+        // Registered under local/ so the published file stays available for a reset.
+        const dataset = { schema: match.schema, format: match.format, file: `local/${file.name}` };
+        dropped.push({ dataset, buffer: await file.arrayBuffer() });
+      }
+
+      const unknownMessage =
+        unknown.length > 0 ? `Not a dataset file: ${unknown.join(', ')}. Files must be named like stations.parquet or segments.geojson.` : null;
+      setLocalDatasetError(unknownMessage);
+      if (dropped.length === 0) return;
+
+      const droppedTables = new Set(dropped.map(item => item.dataset.schema.name));
+      const ok = await rebuildWithLocal([...localRef.current.filter(item => !droppedTables.has(item.dataset.schema.name)), ...dropped]);
+      if (ok) setLocalDatasetError(unknownMessage);
+    },
+    [rebuildWithLocal],
+  );
+
+  const resetLocalFiles = useCallback(async () => {
+    const previous = localRef.current;
+    setLocalDatasetError(null);
+    if (await rebuildWithLocal([])) {
+      await Promise.all(previous.map(item => dbRef.current?.dropFile(item.dataset.file)));
+    }
+  }, [rebuildWithLocal]);
+
+  // Results are cached per period, so scrubbing back over recent years or months is instant.
+  const loadPeriod = useCallback((queries: QueryRunner, period: Period) => {
+    const key = `${period.start}/${period.end}`;
+    const cached = periodCacheRef.current.get(key);
+    if (cached) return cached;
+
+    const generation = tablesGenerationRef.current;
+    const result = (async () => ({
+      stations: await queries.run(stationsForPeriod, period),
+      segments: await queries.run(segmentsForPeriod, period),
+    }))();
+    periodCacheRef.current.set(key, result);
+    result.then(
+      () => {
+        if (tablesGenerationRef.current !== generation) periodCacheRef.current.remove(key);
+      },
+      () => periodCacheRef.current.remove(key),
+    );
+    return result;
   }, []);
 
-  const queryDataForYear = useCallback(
-    async (year: number): Promise<{ stations: StationWithState[]; segments: SegmentWithState[] }> => {
-      const conn = connectionRef.current;
-      if (!conn) {
+  const queryDataForDate = useCallback(
+    async (date: string, resolution: TimeResolution = 'year'): Promise<PeriodData> => {
+      const queries = queriesRef.current;
+      if (!queries) {
         return { stations: [], segments: [] };
       }
+      if (!isIsoDate(date)) {
+        throw new Error(`Invalid date '${date}', expected YYYY-MM-DD`);
+      }
 
-      const stationsForYearTable = await conn.query(`
-        WITH station_events AS (
-          SELECT
-            s.*,
-            MAX(CASE WHEN e.event_type = 'station_open' THEN EXTRACT(YEAR FROM CAST(e.date AS DATE)) END) AS open_year,
-            MAX(CASE WHEN e.event_type = 'station_close' THEN EXTRACT(YEAR FROM CAST(e.date AS DATE)) END) AS close_year,
-            MAX(CASE WHEN e.event_type = 'electrification' AND EXTRACT(YEAR FROM CAST(e.date AS DATE)) <= ${year} THEN EXTRACT(YEAR FROM CAST(e.date AS DATE)) END) AS electrified_year
-          FROM stations s
-          LEFT JOIN events e ON s.station_id = e.station_id
-          WHERE s.lat IS NOT NULL AND s.lon IS NOT NULL
-          GROUP BY ALL
-        ),
-        station_state AS (
-          SELECT
-            se.*,
-            COALESCE(se.open_year, CAST(EXTRACT(YEAR FROM CAST(se.created_at AS DATE)) AS INTEGER), 99999) AS effective_open_year,
-            CASE
-              WHEN se.open_year IS NULL AND se.created_at IS NULL THEN 'planned'
-              WHEN COALESCE(se.open_year, CAST(EXTRACT(YEAR FROM CAST(se.created_at AS DATE)) AS INTEGER), 99999) > ${year} THEN 'planned'
-              WHEN se.close_year IS NOT NULL AND se.close_year < ${year} THEN NULL
-              WHEN se.close_year IS NOT NULL AND se.close_year = ${year} THEN 'closed'
-              WHEN se.current_status = 'closed' THEN 'closed'
-              WHEN se.electrified_year = ${year} THEN 'electrified'
-              WHEN se.open_year = ${year} THEN 'new'
-              ELSE 'existing'
-            END AS state_label
-          FROM station_events se
-        ),
-        station_names_agg AS (
-          SELECT
-            station_id,
-            list(name) AS names,
-            list(language) AS languages
-          FROM station_names
-          WHERE station_id IS NOT NULL AND name IS NOT NULL AND language IS NOT NULL
-          GROUP BY station_id
-        )
-        SELECT ss.*, sna.names, sna.languages
-        FROM station_state ss
-        LEFT JOIN station_names_agg sna ON ss.station_id = sna.station_id
-        WHERE ss.state_label IS NOT NULL;
-      `);
-
-      const stationsForYearRows = stationsForYearTable.toArray();
-
-      const stationsForYear: StationWithState[] = stationsForYearRows.map((row: any) => ({
-        station_id: String(row.station_id),
-        name_primary: row.name_primary || String(row.station_id),
-        name_latin: row.name_latin || undefined,
-        lat: Number(row.lat),
-        lon: Number(row.lon),
-        country_code: row.country_code || undefined,
-        esr_code: row.esr_code || undefined,
-        osm_node_id: row.osm_node_id || undefined,
-        osm_way_id: row.osm_way_id || undefined,
-        osm_relation_id: row.osm_relation_id || undefined,
-        wikidata_id: row.wikidata_id || undefined,
-        wikipedia_ru: row.wikipedia_ru || undefined,
-        parovoz_url: row.parovoz_url || undefined,
-        railwayz_id: row.railwayz_id || undefined,
-        current_status: row.current_status || 'open',
-        geometry_quality: row.geometry_quality || undefined,
-        notes: row.notes || undefined,
-        created_at: row.created_at || undefined,
-        updated_at: row.updated_at || undefined,
-        state: row.state_label as StationWithState['state'],
-        alternative_names: buildAltNameMap(
-          Array.isArray(row.names) && Array.isArray(row.languages)
-            ? row.names.map((n: any, idx: number) => ({ name: n, language: row.languages[idx] }))
-            : row.names
-        ),
-      }));
-
-      const segmentsForYearTable = await conn.query(`
-        WITH base AS (
-          SELECT * FROM segments
-        ),
-        open_years AS (
-          SELECT segment_id, MIN(EXTRACT(YEAR FROM CAST(date AS DATE))) AS open_year
-          FROM events
-          WHERE segment_id IS NOT NULL AND event_type = 'segment_open'
-          GROUP BY segment_id
-        ),
-        close_years AS (
-          SELECT segment_id, MIN(EXTRACT(YEAR FROM CAST(date AS DATE))) AS close_year
-          FROM events
-          WHERE segment_id IS NOT NULL AND event_type = 'segment_close'
-          GROUP BY segment_id
-        ),
-        electrified_years AS (
-          SELECT segment_id, MAX(EXTRACT(YEAR FROM CAST(date AS DATE))) AS electrified_year
-          FROM events
-          WHERE segment_id IS NOT NULL AND event_type = 'electrification' AND EXTRACT(YEAR FROM CAST(date AS DATE)) <= ${year}
-          GROUP BY segment_id
-        )
-        SELECT
-          b.segment_id,
-          b.from_station_id,
-          b.to_station_id,
-          CAST(b.geometry AS VARCHAR) AS geometry_json,
-          b.geometry_quality,
-          o.open_year,
-          c.close_year,
-          el.electrified_year,
-          CASE
-            WHEN ${year} < COALESCE(o.open_year, 0) THEN 'planned'
-            WHEN c.close_year IS NOT NULL AND c.close_year < ${year} THEN NULL
-            WHEN c.close_year IS NOT NULL AND c.close_year = ${year} THEN 'closed'
-            WHEN el.electrified_year = ${year} THEN 'electrified'
-            WHEN o.open_year IS NOT NULL AND o.open_year = ${year} THEN 'new'
-            ELSE 'existing'
-          END AS state_label
-        FROM base b
-        LEFT JOIN open_years o USING (segment_id)
-        LEFT JOIN close_years c USING (segment_id)
-        LEFT JOIN electrified_years el USING (segment_id);
-      `);
-
-      console.log(segmentsForYearTable);
-
-      const segmentRows = segmentsForYearTable.toArray();
-
-      console.log(segmentRows);
-
-      const segmentsForYear: SegmentWithState[] = segmentRows
-        .filter((row: any) => Boolean(row.state_label))
-        .map((row: any) => ({
-          segment_id: String(row.segment_id),
-          from_station_id: String(row.from_station_id),
-          to_station_id: String(row.to_station_id),
-          geometry: normalizeGeometry(row.geometry_json ?? row.geometry),
-          geometry_source: row.geometry_source || undefined,
-          geometry_quality: row.geometry_quality || undefined,
-          is_current: row.is_current || undefined,
-          notes: row.notes || undefined,
-          state: row.state_label as SegmentWithState['state'],
-        }));
-
-      console.log(segmentsForYear);
+      // Entities are evaluated against the whole period (year, month or day) containing the date.
+      const request = ++periodRequestRef.current;
+      const generation = tablesGenerationRef.current;
+      const result = loadPeriod(queries, periodFor(date, resolution));
+
+      // Once this period is ready, load the neighbouring ones in the background, so stepping or
+      // animating the slider usually finds its next period cached. They are loaded one at a time and
+      // dropped once a newer period is requested, so dragging the slider does not queue prefetches
+      // ahead of the period being shown on the single connection.
+      void result
+        .then(async () => {
+          for (const adjacent of adjacentDates(date, resolution)) {
+            if (periodRequestRef.current !== request || tablesGenerationRef.current !== generation) return;
+            await loadPeriod(queries, periodFor(adjacent, resolution));
+          }
+        })
+        .catch(() => undefined);
+
+      return result;
+    },
+    [loadPeriod],
+  );
 
-      return { stations: stationsForYear, segments: segmentsForYear };
+  const queryDataForBounds = useCallback(
+    async (date: string, resolution: TimeResolution, bounds: BoundingBox): Promise<PeriodData> => {
+      const data = await queryDataForDate(date, resolution);
+      let index = periodIndexes.get(data);
+      if (!index) {
+        index = {
+          stations: createGridIndex(data.stations, station => pointBox(station.lat, station.lon)),
+          segments: createGridIndex(data.segments, segmentBox),
+        };
+        periodIndexes.set(data, index);
+      }
+      return { stations: index.stations.search(bounds), segments: index.segments.search(bounds) };
     },
-    [],
+    [queryDataForDate],
+  );
+
+  const queryDataForYear = useCallback(
+    (year: number) => queryDataForDate(`${String(year).padStart(4, '0')}-01-01`, 'year'),
+    [queryDataForDate],
   );
 
   return (
-    <DatabaseContext.Provider value={{ stations, stationNames, events, segments, isLoading, error, queryDataForYear }}>
+    <DatabaseContext.Provider value={{ stations, stationNames, events, segments, lines, lineSegments, segmentStates, segmentMetrics, sources, timetables, isLoading, isRebuilding, error, localDatasets, localDatasetError, loadErrors, loadProgress, retryTable, loadLocalFiles, resetLocalFiles, queryDataForYear, queryDataForDate, queryDataForBounds }}>
       {children}
     </DatabaseContext.Provider>
   );
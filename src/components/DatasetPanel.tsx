@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useDatabase } from './DatabaseContext';
+import { SidePanel } from './SidePanel';
+import { DATASET_SCHEMAS, datasetFile } from './datasetSchema';
+
+interface DatasetPanelProps {
+  onClose: () => void;
+}
+
+export function DatasetPanel({ onClose }: DatasetPanelProps) {
+  const { localDatasets, localDatasetError, loadLocalFiles, resetLocalFiles } = useDatabase();
+  const [isDragging, setIsDragging] = useState(false);
+
+  const localByTable = new Map(localDatasets.map(local => [local.table, local.file]));
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    void loadLocalFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      void loadLocalFiles(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <SidePanel
+      title="Dataset"
+      onClose={onClose}
+      actions={
+        <>
+          <button
+            type="button"
+            onClick={() => void resetLocalFiles()}
+            disabled={localDatasets.length === 0}
+            className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to published data
+          </button>
+        </>
+      }
+    >
+      <div
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className="rounded p-4 mb-4"
+        style={{
+          border: `2px dashed ${isDragging ? '#0ea5e9' : '#cbd5e1'}`,
+          background: isDragging ? '#e0f2fe' : '#f8fafc',
+          textAlign: 'center',
+        }}
+      >
+        <p>Drop dataset files here to try them before publishing.</p>
+        <p style={{ color: '#64748b' }}>Files replace the published table with the same name, e.g. stations.parquet or segments.geojson.</p>
+        <label className="underline" style={{ color: '#2563eb', cursor: 'pointer' }}>
+          Choose files
+          <input type="file" multiple onChange={handleFileInput} style={{ display: 'none' }} />
+        </label>
+      </div>
+
+      {localDatasetError && (
+        <p className="text-red-600 mb-4" style={{ whiteSpace: 'pre-line' }}>{localDatasetError}</p>
+      )}
+
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #cbd5e1' }}>
+            <th>Table</th>
+            <th>Accepted files</th>
+            <th>Loaded from</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DATASET_SCHEMAS.map(schema => {
+            const localFile = localByTable.get(schema.name);
+            return (
+              <tr key={schema.name} style={{ borderBottom: '1px solid #e2e8f0' }}>
+                <td style={{ padding: '0.25rem 0.5rem 0.25rem 0' }}>{schema.name}</td>
+                <td style={{ color: '#64748b' }}>{schema.formats.map(format => datasetFile(schema, format)).join(', ')}</td>
+                <td style={localFile ? { color: '#b45309', fontWeight: 'bold' } : undefined}>
+                  {localFile ? `Local: ${localFile}` : 'Published'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </SidePanel>
+  );
+}
@@ -0,0 +1,107 @@
+import { useDatabase } from './DatabaseContext';
+import { SidePanel } from './SidePanel';
+import { downloadText } from './citations';
+import { downloadTotals, formatBytes, formatDuration } from './loadStats';
+
+interface DiagnosticsPanelProps {
+  onClose: () => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: '0.25rem 0.5rem 0.25rem 0' };
+
+// Timings of the latest load, to compare between releases and spot performance regressions.
+export function DiagnosticsPanel({ onClose }: DiagnosticsPanelProps) {
+  const { loadProgress } = useDatabase();
+  const { stages, files } = loadProgress;
+  const origin = stages[0]?.startedAt ?? 0;
+  const finished = stages.filter(stage => stage.durationMs != null);
+  const totalMs = finished.length > 0 ? Math.max(...finished.map(stage => stage.startedAt + stage.durationMs!)) - origin : 0;
+  const totals = downloadTotals(files);
+
+  const exportTimings = () =>
+    downloadText(
+      'load-timings.json',
+      JSON.stringify(
+        {
+          userAgent: navigator.userAgent,
+          totalMs,
+          stages: stages.map(({ id, label, startedAt, durationMs }) => ({ id, label, startMs: startedAt - origin, durationMs })),
+          files: files.map(({ file, receivedBytes, fromCache, startedAt, durationMs }) => ({
+            file,
+            bytes: receivedBytes,
+            fromCache,
+            startMs: startedAt - origin,
+            durationMs,
+          })),
+        },
+        null,
+        2,
+      ),
+      'application/json',
+    );
+
+  return (
+    <SidePanel
+      title="Diagnostics"
+      onClose={onClose}
+      actions={
+        <>
+          <button
+            type="button"
+            onClick={exportTimings}
+            disabled={stages.length === 0}
+            className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            JSON
+          </button>
+        </>
+      }
+    >
+      <p className="mb-4" style={{ color: '#64748b' }}>
+        Latest load took {formatDuration(totalMs)} and read {formatBytes(totals.receivedBytes)} of data files.
+      </p>
+
+      <h3 className="mb-2" style={{ fontWeight: 'bold' }}>Stages</h3>
+      <table className="mb-4" style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #cbd5e1' }}>
+            <th>Stage</th>
+            <th style={{ textAlign: 'right' }}>Start</th>
+            <th style={{ textAlign: 'right' }}>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stages.map((stage, index) => (
+            <tr key={`${stage.id}-${index}`} style={{ borderBottom: '1px solid #e2e8f0' }}>
+              <td style={cellStyle}>{stage.label}</td>
+              <td style={{ textAlign: 'right', color: '#64748b' }}>+{formatDuration(stage.startedAt - origin)}</td>
+              <td style={{ textAlign: 'right' }}>{stage.durationMs != null ? formatDuration(stage.durationMs) : '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h3 className="mb-2" style={{ fontWeight: 'bold' }}>Data files</h3>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #cbd5e1' }}>
+            <th>File</th>
+            <th>From</th>
+            <th style={{ textAlign: 'right' }}>Size</th>
+            <th style={{ textAlign: 'right' }}>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          {files.map(file => (
+            <tr key={file.file} style={{ borderBottom: '1px solid #e2e8f0' }}>
+              <td style={cellStyle}>{file.file}</td>
+              <td style={{ color: '#64748b' }}>{file.fromCache ? 'Browser cache' : 'Network'}</td>
+              <td style={{ textAlign: 'right' }}>{formatBytes(file.receivedBytes)}</td>
+              <td style={{ textAlign: 'right' }}>{file.durationMs != null ? formatDuration(file.durationMs) : '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </SidePanel>
+  );
+}
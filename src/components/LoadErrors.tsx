@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { useDatabase } from './DatabaseContext';
+import { formatBytes } from './loadStats';
+
+const STAGE_LABELS: Record<string, string> = {
+  manifest: 'Manifest',
+  fetch: 'Download',
+  parse: 'Parsing',
+  schema: 'Schema check',
+  build: 'Table build',
+};
+
+// Non-blocking list of tables that failed to load. The app keeps running with those tables empty.
+export function LoadErrors() {
+  const { loadErrors, retryTable } = useDatabase();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (loadErrors.length === 0) return null;
+
+  const tables = [...new Set(loadErrors.map(failure => failure.table))];
+
+  return (
+    <div className="text-sm px-4 py-2" style={{ background: '#fee2e2', color: '#991b1b', borderBottom: '1px solid #fca5a5' }}>
+      <div className="flex items-center gap-3">
+        <span className="flex-1">
+          <strong>Some data could not be loaded:</strong> {tables.join(', ')}. The map is shown without it.
+        </span>
+        <button type="button" onClick={() => setShowDetails(prev => !prev)} className="underline">
+          {showDetails ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+
+      {showDetails && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.5rem' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', borderBottom: '1px solid #fca5a5' }}>
+              <th>Table</th>
+              <th>File</th>
+              <th>Stage</th>
+              <th>HTTP status</th>
+              <th>Size</th>
+              <th>Error</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loadErrors.map((failure, index) => (
+              <tr key={`${failure.table}-${failure.stage}-${index}`} style={{ verticalAlign: 'top' }}>
+                <td style={{ padding: '0.25rem 0.5rem 0.25rem 0' }}>{failure.table}</td>
+                <td>{failure.file}</td>
+                <td>{STAGE_LABELS[failure.stage] ?? failure.stage}</td>
+                <td>{failure.status ?? '–'}</td>
+                <td>{failure.bytes != null ? formatBytes(failure.bytes) : '–'}</td>
+                <td style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>{failure.message}</td>
+                <td>
+                  {failure.table !== 'manifest' && (
+                    <button
+                      type="button"
+                      onClick={() => void retryTable(failure.table)}
+                      className="rounded px-4 py-2"
+                      style={{ background: '#991b1b', color: '#fff' }}
+                    >
+                      Retry
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Loader2 } from 'lucide-react';
+import { useDatabase } from './DatabaseContext';
+import { Progress } from './ui/progress';
+import { downloadTotals, formatBytes, formatDuration } from './loadStats';
+
+const TRACK_STYLE: React.CSSProperties = {
+  position: 'relative',
+  height: '0.5rem',
+  background: '#cbd5e1',
+  borderRadius: 9999,
+  overflow: 'hidden',
+};
+
+const INDICATOR_STYLE: React.CSSProperties = { background: '#334155', height: '100%' };
+
+export function LoadingScreen() {
+  const { loadProgress } = useDatabase();
+  const { stages, files } = loadProgress;
+  const current = [...stages].reverse().find(stage => stage.durationMs == null);
+  const totals = downloadTotals(files);
+
+  return (
+    <div className="flex items-center justify-center h-screen">
+      <div className="text-sm" style={{ width: '28rem', maxWidth: '100%' }}>
+        <div className="flex items-center gap-2 mb-4">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          <p>{current ? `${current.label}…` : 'Loading database...'}</p>
+        </div>
+
+        {files.length > 0 && (
+          <div className="mb-4">
+            <div className="flex mb-1">
+              <span className="flex-1">Data files</span>
+              <span style={{ color: '#64748b' }}>
+                {formatBytes(totals.receivedBytes)}
+                {totals.totalBytes > 0 && ` of ${formatBytes(totals.totalBytes)}`}
+              </span>
+            </div>
+            <Progress value={totals.percent} style={TRACK_STYLE} indicatorStyle={INDICATOR_STYLE} />
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.5rem', color: '#64748b' }}>
+              <tbody>
+                {files.map(file => (
+                  <tr key={file.file}>
+                    <td style={{ padding: '0.125rem 0.5rem 0.125rem 0', whiteSpace: 'nowrap' }}>{file.file}</td>
+                    <td style={{ width: '100%' }}>
+                      <Progress
+                        value={file.totalBytes ? (100 * file.receivedBytes) / file.totalBytes : 0}
+                        style={{ ...TRACK_STYLE, height: '0.25rem' }}
+                        indicatorStyle={INDICATOR_STYLE}
+                      />
+                    </td>
+                    <td style={{ paddingLeft: '0.5rem', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                      {file.fromCache ? 'cached' : formatBytes(file.receivedBytes)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <ol>
+          {stages.map((stage, index) => (
+            <li key={`${stage.id}-${index}`} className="flex" style={{ color: stage.durationMs == null ? undefined : '#64748b' }}>
+              <span className="flex-1">{stage.label}</span>
+              <span>{stage.durationMs != null ? formatDuration(stage.durationMs) : '…'}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+// Shown over the mounted map while the tables are rebuilt, so the view and open panels are kept.
+export function RebuildingOverlay() {
+  const { loadProgress } = useDatabase();
+  const { stages, files } = loadProgress;
+  const current = [...stages].reverse().find(stage => stage.durationMs == null);
+  const totals = downloadTotals(files);
+
+  return (
+    <div
+      className="flex items-center justify-center"
+      style={{ position: 'absolute', inset: 0, zIndex: 1200, background: 'rgba(248, 250, 252, 0.6)' }}
+    >
+      <div className="rounded shadow-lg text-sm p-4" style={{ width: '20rem', background: '#fff' }}>
+        <div className="flex items-center gap-2 mb-2">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          <p>{current ? `${current.label}…` : 'Rebuilding tables…'}</p>
+        </div>
+        {files.length > 0 && <Progress value={totals.percent} style={TRACK_STYLE} indicatorStyle={INDICATOR_STYLE} />}
+      </div>
+    </div>
+  );
+}
@@ -1,49 +1,493 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useDatabase } from './DatabaseContext';
+import { NetworkTotals } from './NetworkTotals';
+import { EntityState, Event, SegmentAttributes, SegmentWithState, StationWithState } from './models';
+import { Source, formatCitation } from './citations';
+import { TimeResolution, formatPeriodLabel, periodFor } from './dates';
+import { simplifyForBands, zoomBand } from './simplify';
+import { BoundingBox } from './spatialIndex';
+import { PointCluster, clusterPoints } from './stationClusters';
+
+// Segment attributes a segment colour mode can show.
+type SegmentAttribute = Exclude<keyof SegmentAttributes, 'electrification_voltage_kv'>;
+
+export type SegmentColorMode = 'state' | 'line' | SegmentAttribute;
+
+export const SEGMENT_COLOR_MODES: { value: SegmentColorMode; label: string }[] = [
+  { value: 'state', label: 'State' },
+  { value: 'line', label: 'Line' },
+  { value: 'gauge_mm', label: 'Gauge' },
+  { value: 'track_count', label: 'Track count' },
+  { value: 'electrified', label: 'Electrified' },
+  { value: 'electrification_system', label: 'Electrification system' },
+  { value: 'power_supply_type', label: 'Power supply' },
+  { value: 'max_speed_kmh', label: 'Max speed' },
+  { value: 'signalling_system', label: 'Signalling system' },
+  { value: 'ownership_type', label: 'Ownership' },
+];
+
+// SVG keeps one DOM element per marker; canvas draws everything into one canvas per pane, which stays
+// fast when all stations are shown. Leaflet hit-tests canvas layers itself, so popups work the same.
+export type MapRenderer = 'svg' | 'canvas';
+
+export const MAP_RENDERERS: { value: MapRenderer; label: string }[] = [
+  { value: 'svg', label: 'SVG' },
+  { value: 'canvas', label: 'Canvas' },
+];
+
+// Stations close together on screen are merged into a count; with 'keep-changes', stations whose
+// state marks a change in the period stay on their own so the yearly changes remain visible.
+export type StationClustering = 'off' | 'all' | 'keep-changes';
+
+export const STATION_CLUSTERINGS: { value: StationClustering; label: string }[] = [
+  { value: 'keep-changes', label: 'Cluster, keep changes visible' },
+  { value: 'all', label: 'Cluster all' },
+  { value: 'off', label: 'Off' },
+];
 
-interface Station {
-  station_id: string;
-  name_primary: string;
-  lat: number;
-  lon: number;
-  country_code?: string;
-  wikidata_id?: string;
-  wikipedia_ru?: string;
-  parovoz_url?: string;
-  railwayz_id?: string;
-  current_status: string;
-  notes?: string;
-  osm_node_id?: string;
-  osm_way_id?: string;
-  osm_relation_id?: string;
-  state: 'planned' | 'existing' | 'new' | 'electrified' | 'gauge_change' | 'closed';
-  alternative_names: { [key: string]: string };
+interface MapViewProps {
+  currentDate: string;
+  resolution: TimeResolution;
+  colorMode: SegmentColorMode;
+  renderer: MapRenderer;
+  clustering: StationClustering;
+  highlightedTimetableId?: string | null;
 }
 
-interface Segment {
-  segment_id: string;
-  from_station_id: string;
-  to_station_id: string;
-  geometry: [number, number][];
-  state: 'planned' | 'existing' | 'new' | 'electrified' | 'gauge_change' | 'closed';
+interface ThematicStyle {
+  label: string;
+  color: string;
+  weight: number;
+  // Legend ordering; null marks unknown values, which sort last.
+  sortKey: number | string | null;
 }
 
-interface MapViewProps {
-  currentYear: number;
+// Distinct hues for categorical colouring; black, green, teal, orange, purple and red stay reserved for segment states.
+const CATEGORY_PALETTE = [
+  '#2563eb', '#0891b2', '#be185d', '#65a30d', '#7c3aed', '#b45309',
+  '#78350f', '#c026d3', '#4338ca', '#a16207', '#0369a1', '#e11d48',
+];
+const NO_DATA_COLOR = '#94a3b8';
+const SPEED_BANDS = [
+  { max: 60, label: 'up to 60 km/h', color: '#fde68a' },
+  { max: 100, label: '60-100 km/h', color: '#f59e0b' },
+  { max: 140, label: '100-140 km/h', color: '#dc2626' },
+  { max: Infinity, label: 'over 140 km/h', color: '#7f1d1d' },
+];
+
+const resolveCategoryColor = (value?: string) => {
+  if (!value) return NO_DATA_COLOR;
+
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return CATEGORY_PALETTE[Math.abs(hash) % CATEGORY_PALETTE.length];
+};
+
+const unknownStyle = (label: string): ThematicStyle => ({
+  label,
+  color: NO_DATA_COLOR,
+  weight: 2,
+  sortKey: null,
+});
+
+const categoryStyle = (value: string | undefined, label?: string): ThematicStyle => {
+  if (!value) return unknownStyle('Unknown');
+  return { label: label ?? value, color: resolveCategoryColor(value), weight: 3, sortKey: label ?? value };
+};
+
+// Style a segment by a non-state colour mode; the label doubles as the legend entry.
+const resolveThematicStyle = (segment: SegmentWithState, mode: Exclude<SegmentColorMode, 'state'>): ThematicStyle => {
+  switch (mode) {
+    case 'line':
+      if (!segment.line_id) return unknownStyle('No line assigned');
+      return categoryStyle(segment.line_id, segment.line_name ?? segment.line_id);
+    case 'gauge_mm':
+      return categoryStyle(segment.gauge_mm != null ? String(segment.gauge_mm) : undefined, `${segment.gauge_mm} mm`);
+    case 'track_count': {
+      if (segment.track_count == null) return unknownStyle('Unknown');
+      const tracks = segment.track_count;
+      return {
+        label: tracks === 1 ? '1 track' : `${tracks} tracks`,
+        color: '#1e293b',
+        weight: 1 + 2 * Math.min(tracks, 4),
+        sortKey: tracks,
+      };
+    }
+    case 'electrified':
+      if (segment.electrified == null) return unknownStyle('Unknown');
+      return segment.electrified
+        ? { label: 'Electrified', color: '#ea580c', weight: 3, sortKey: 0 }
+        : { label: 'Not electrified', color: '#000000', weight: 3, sortKey: 1 };
+    case 'max_speed_kmh': {
+      if (segment.max_speed_kmh == null) return unknownStyle('Unknown');
+      const bandIndex = SPEED_BANDS.findIndex(band => segment.max_speed_kmh! <= band.max);
+      const band = SPEED_BANDS[bandIndex];
+      return { label: band.label, color: band.color, weight: 3, sortKey: bandIndex };
+    }
+    default:
+      return categoryStyle(segment[mode]);
+  }
+};
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours} h ${String(rest).padStart(2, '0')} min` : `${rest} min`;
+};
+
+// Events up to the end of the shown period, i.e. the ones that determine the entity's state, with their citations.
+const buildEventCitationsHTML = (events: Event[] | undefined, sourcesById: Map<string, Source>, periodEnd: string) => {
+  const relevant = (events ?? []).filter(event => !event.date || event.date <= periodEnd);
+  if (relevant.length === 0) return '';
+
+  let html = `<div style="margin-top: 0.5rem; padding-top: 0.5rem; border-top: 1px solid #e2e8f0;"><strong>Sources:</strong>`;
+  relevant.forEach(event => {
+    const citation = event.source_id
+      ? formatCitation(sourcesById.get(event.source_id), event.source_id, event.source_page)
+      : 'no source recorded';
+    html += `<div>${event.date || 'undated'} ${event.event_type.replace(/_/g, ' ')}: <em>${citation}</em></div>`;
+  });
+  html += `</div>`;
+
+  return html;
+};
+
+// Records without any open/close event: drawn dashed/hollow in a muted stone colour on their own layer.
+const UNDATED_COLOR = '#a8a29e';
+
+const buildStationPopupHTML = (station: StationWithState, citationsHTML: string) => {
+  let popupHTML = `
+    <div style="min-width: 200px;">
+      <h3 style="margin-bottom: 0.5rem; font-weight: bold;">${station.name_for_year}</h3>
+      <div style="font-size: 0.875rem;">
+        <div><strong>ID:</strong> ${station.station_id}</div>
+        <div><strong>Location:</strong> ${station.lat.toFixed(4)}, ${station.lon.toFixed(4)}</div>
+  `;
+
+  if (station.state === 'undated') {
+    popupHTML += `<div style="color: #78716c;"><em>Undated: no opening or closing event recorded</em></div>`;
+  }
+
+  if (station.name_for_year !== station.name_primary) {
+    popupHTML += `<div><strong>Database name:</strong> ${station.name_primary}</div>`;
+  }
+
+  if (station.country_code) {
+    popupHTML += `<div><strong>Country:</strong> ${station.country_code}</div>`;
+  }
+  
+  if (station.current_status) {
+    popupHTML += `<div><strong>Status:</strong> ${station.current_status}</div>`;
+  }
+
+  if (station.osm_node_id) {
+    popupHTML += `<div><strong>OSM Node:</strong> <a href="https://www.openstreetmap.org/node/${station.osm_node_id}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">${station.osm_node_id}</a></div>`;
+  }
+
+  if (station.wikidata_id) {
+    popupHTML += `<div><strong>Wikidata:</strong> <a href="https://www.wikidata.org/wiki/${station.wikidata_id}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">${station.wikidata_id}</a></div>`;
+  }
+
+  if (station.wikipedia_ru) {
+    popupHTML += `<div><strong>Wikipedia (RU):</strong> <a href="https://ru.wikipedia.org/wiki/${encodeURIComponent(station.wikipedia_ru)}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">${station.wikipedia_ru}</a></div>`;
+  }
+
+  if (station.parovoz_url) {
+    popupHTML += `<div><strong>Parovoz:</strong> <a href="${station.parovoz_url}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">Link</a></div>`;
+  }
+
+  if (station.break_of_gauge) {
+    popupHTML += `<div><strong>Break of gauge:</strong> ${station.gauges.map(gauge => `${gauge} mm`).join(' / ')}</div>`;
+  } else if (station.gauges.length === 1) {
+    popupHTML += `<div><strong>Gauge:</strong> ${station.gauges[0]} mm</div>`;
+  }
+
+  Object.entries(station.alternative_names).forEach(([key, value]) => {
+    popupHTML += `<div><strong>${key}:</strong> ${value}</div>`;
+  });
+
+  const datedNames = station.name_history.filter(entry => entry.valid_from || entry.valid_to);
+  if (datedNames.length > 0) {
+    popupHTML += `<div style="margin-top: 0.5rem; padding-top: 0.5rem; border-top: 1px solid #e2e8f0;"><strong>Naming history:</strong>`;
+    datedNames.forEach(entry => {
+      const period = `${entry.valid_from?.slice(0, 4) ?? '…'}–${entry.valid_to?.slice(0, 4) ?? '…'}`;
+      const details = [entry.language, entry.name_type].filter(Boolean).join(', ');
+      popupHTML += `<div>${period}: ${entry.name}${details ? ` (${details})` : ''}</div>`;
+    });
+    popupHTML += `</div>`;
+  }
+
+  popupHTML += citationsHTML;
+
+  if (station.notes) {
+    popupHTML += `<div style="margin-top: 0.5rem; padding-top: 0.5rem; border-top: 1px solid #e2e8f0;"><strong>Notes:</strong> ${station.notes}</div>`;
+  }
+
+  popupHTML += `</div></div>`;
+
+  return popupHTML;
+};
+
+const buildSegmentPopupHTML = (segment: SegmentWithState, citationsHTML: string) => {
+  let popupHTML = `
+    <div style="min-width: 200px;">
+      <h3 style="margin-bottom: 0.5rem; font-weight: bold;">${segment.line_name ?? 'Unassigned segment'}</h3>
+      <div style="font-size: 0.875rem;">
+        <div><strong>Segment:</strong> ${segment.segment_id}</div>
+  `;
+
+  if (segment.state === 'undated') {
+    popupHTML += `<div style="color: #78716c;"><em>Undated: no opening or closing event recorded</em></div>`;
+  }
+
+  if (segment.line_id) {
+    popupHTML += `<div><strong>Line ID:</strong> ${segment.line_id}</div>`;
+  }
+
+  if (segment.line_operator) {
+    popupHTML += `<div><strong>Operator:</strong> ${segment.line_operator}</div>`;
+  }
+
+  if (segment.line_gauge) {
+    popupHTML += `<div><strong>Line gauge:</strong> ${segment.line_gauge}</div>`;
+  }
+
+  if (segment.gauge_mm != null) {
+    popupHTML += `<div><strong>Gauge:</strong> ${segment.gauge_mm} mm</div>`;
+  }
+
+  if (segment.state === 'gauge_change') {
+    const from = segment.previous_gauge_mm != null ? ` from ${segment.previous_gauge_mm} mm` : '';
+    const to = segment.gauge_mm != null ? ` to ${segment.gauge_mm} mm` : '';
+    popupHTML += `<div><strong>Regauged this year${from}${to}</strong></div>`;
+  }
+
+  if (segment.track_count != null) {
+    popupHTML += `<div><strong>Tracks:</strong> ${segment.track_count}</div>`;
+  }
+
+  if (segment.electrified != null) {
+    const system = [segment.electrification_system, segment.power_supply_type].filter(Boolean).join(', ');
+    popupHTML += `<div><strong>Electrified:</strong> ${segment.electrified ? 'yes' : 'no'}${system ? ` (${system})` : ''}</div>`;
+  }
+
+  if (segment.max_speed_kmh != null) {
+    popupHTML += `<div><strong>Max speed:</strong> ${segment.max_speed_kmh} km/h</div>`;
+  }
+
+  if (segment.signalling_system) {
+    popupHTML += `<div><strong>Signalling:</strong> ${segment.signalling_system}</div>`;
+  }
+
+  if (segment.ownership_type) {
+    popupHTML += `<div><strong>Ownership:</strong> ${segment.ownership_type}</div>`;
+  }
+
+  popupHTML += `<div><strong>From:</strong> ${segment.from_station_id}</div>`;
+  popupHTML += `<div><strong>To:</strong> ${segment.to_station_id}</div>`;
+
+  const journeyTimes = [
+    ['Passenger', segment.passenger_time_min],
+    ['Express', segment.express_time_min],
+    ['Freight', segment.freight_time_min],
+  ].filter(([, minutes]) => minutes != null) as [string, number][];
+
+  if (segment.length_km != null || journeyTimes.length > 0 || segment.speed_class) {
+    popupHTML += `<div style="margin-top: 0.5rem; padding-top: 0.5rem; border-top: 1px solid #e2e8f0;">`;
+    if (segment.length_km != null) {
+      const method = segment.length_method ? ` (${segment.length_method})` : '';
+      popupHTML += `<div><strong>Length:</strong> ${segment.length_km.toFixed(2)} km${method}</div>`;
+    }
+    journeyTimes.forEach(([label, minutes]) => {
+      popupHTML += `<div><strong>${label} time:</strong> ${formatMinutes(minutes)}</div>`;
+    });
+    if (segment.speed_class) {
+      popupHTML += `<div><strong>Speed class:</strong> ${segment.speed_class}</div>`;
+    }
+    if (segment.timetable_id) {
+      popupHTML += `<div><strong>Timetable:</strong> ${segment.timetable_id}</div>`;
+    }
+    popupHTML += `</div>`;
+  }
+
+  popupHTML += citationsHTML;
+  popupHTML += `</div></div>`;
+
+  return popupHTML;
+};
+
+const SEGMENT_STATE_STYLES: Record<EntityState, { color: string; weight: number }> = {
+  existing: { color: '#000000', weight: 3 },
+  planned: { color: '#94a3b8', weight: 3 },
+  new: { color: '#16a34a', weight: 4 },
+  reopened: { color: '#0d9488', weight: 4 },
+  electrified: { color: '#ea580c', weight: 4 },
+  gauge_change: { color: '#9333ea', weight: 4 },
+  closed: { color: '#dc2626', weight: 4 },
+  undated: { color: UNDATED_COLOR, weight: 2 },
+};
+
+const resolveSegmentStyle = (segment: SegmentWithState, colorMode: SegmentColorMode, highlighted: boolean) => {
+  let { color, weight } = SEGMENT_STATE_STYLES[segment.state];
+
+  if (colorMode !== 'state') {
+    const thematic = resolveThematicStyle(segment, colorMode);
+    color = thematic.color;
+    weight = thematic.weight;
+  }
+
+  if (highlighted) {
+    color = '#0ea5e9';
+    weight = 6;
+  }
+
+  return { color, weight, opacity: 0.7, dashArray: segment.state === 'undated' ? '4 6' : undefined };
+};
+
+const STATION_STATE_COLORS: Record<EntityState, string> = {
+  existing: '#000000',
+  planned: '#94a3b8',
+  new: '#16a34a',
+  reopened: '#0d9488',
+  electrified: '#ea580c',
+  gauge_change: '#9333ea',
+  closed: '#dc2626',
+  undated: UNDATED_COLOR,
+};
+const MOCK_BASE_COLOR = '#eab308';
+
+const isMockStation = (station: StationWithState) => station.current_status === 'mock';
+
+// Station color by state, with mock-specific overrides: mocks stay yellow unless something happens to them.
+const resolveStationColor = (station: StationWithState) => {
+  if (isMockStation(station) && (station.state === 'existing' || station.state === 'planned' || station.state === 'undated')) {
+    return MOCK_BASE_COLOR;
+  }
+  return STATION_STATE_COLORS[station.state];
+};
+
+const resolveStationStyle = (station: StationWithState) => {
+  const color = resolveStationColor(station);
+  if (isMockStation(station)) {
+    return { radius: 5, color, fillColor: color, fillOpacity: 0.8, weight: 2 };
+  }
+  // Regular station; undated ones are drawn hollow
+  const fillOpacity = station.state === 'planned' ? 0.6 : station.state === 'undated' ? 0 : 0.9;
+  return { radius: 4, color, fillColor: color, fillOpacity, weight: station.state === 'undated' ? 2 : 1 };
+};
+
+// Fraction of the view added on each side when querying the visible stations and segments.
+const VIEWPORT_MARGIN = 0.5;
+
+// Segments, mock-station circles and station markers each get a pane, so they stack in that order
+// however the persistent layers were added over time.
+const SEGMENT_PANE = 'railway-segments';
+const MOCK_CIRCLE_PANE = 'railway-mock-circles';
+const STATION_PANE = 'railway-stations';
+
+// Mock stations carry their radius (km) in the notes as <radius 12.5>; the circle is shown from this zoom on.
+const MOCK_CIRCLE_MIN_ZOOM = 7;
+
+const mockRadiusKm = (station: StationWithState) => {
+  const match = station.notes?.match(/<radius\s+([\d.]+)>/);
+  return match ? parseFloat(match[1]) : 5;
+};
+
+const sameLine = (a: [number, number][], b: [number, number][]) =>
+  a === b || (a.length === b.length && a.every(([lat, lon], index) => lat === b[index][0] && lon === b[index][1]));
+
+const sameGeometry = (a: [number, number][][], b: [number, number][][]) =>
+  a === b || (a.length === b.length && a.every((line, index) => sameLine(line, b[index])));
+
+// Clusters are formed in squares of this size on screen, up to the zoom where every station is drawn.
+const CLUSTER_CELL_PIXELS = 48;
+const CLUSTER_MAX_ZOOM = 10;
+
+const NOTABLE_STATES = new Set<EntityState>(['new', 'reopened', 'closed', 'electrified', 'gauge_change']);
+
+// Count badge ringed by the share of each state among the clustered stations, in the station colours.
+const createClusterMarker = (L: any, map: any, cluster: PointCluster<StationWithState>) => {
+  const counts = new Map<EntityState, number>();
+  cluster.members.forEach(station => counts.set(station.state, (counts.get(station.state) ?? 0) + 1));
+
+  const total = cluster.members.length;
+  const size = total < 10 ? 26 : total < 100 ? 32 : total < 1000 ? 38 : 44;
+  let angle = 0;
+  const stops = [...counts.entries()].map(([state, count]) => {
+    const from = angle;
+    angle += (count / total) * 360;
+    return `${STATION_STATE_COLORS[state]} ${from}deg ${angle}deg`;
+  });
+
+  const marker = L.marker([cluster.lat, cluster.lon], {
+    icon: L.divIcon({
+      className: '',
+      iconSize: [size, size],
+      html: `
+        <div style="width: ${size}px; height: ${size}px; border-radius: 50%; background: conic-gradient(${stops.join(', ')}); display: flex; align-items: center; justify-content: center; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.4);">
+          <span style="min-width: ${size - 10}px; line-height: ${size - 10}px; border-radius: 50%; background: #fff; font-size: 11px; font-weight: bold; text-align: center;">${total}</span>
+        </div>
+      `,
+    }),
+    title: [...counts.entries()].map(([state, count]) => `${count} ${state.replace(/_/g, ' ')}`).join(', '),
+  });
+  marker.on('click', () => {
+    map.fitBounds(
+      [
+        [cluster.bounds.south, cluster.bounds.west],
+        [cluster.bounds.north, cluster.bounds.east],
+      ],
+      { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM + 1 },
+    );
+  });
+  return marker;
+};
+
+// One persistent Leaflet layer per segment and station, kept across periods and restyled in place.
+interface SegmentLayer {
+  segment: SegmentWithState;
+  layer: any;
+  styleKey: string;
+  band: number;
 }
 
-export function MapView({ currentYear }: MapViewProps) {
-  const { queryDataForYear, isLoading } = useDatabase();
-  const [stations, setStations] = useState<Station[]>([]);
-  const [segments, setSegments] = useState<Segment[]>([]);
+// Simplified geometries of a segment for every zoom band, computed once per geometry.
+interface SimplifiedGeometry {
+  geometry: [number, number][][];
+  bands: [number, number][][][];
+}
+
+interface StationLayer {
+  station: StationWithState;
+  marker: any;
+  circle: any | null;
+  styleKey: string;
+}
+
+export function MapView({ currentDate, resolution, colorMode, renderer, clustering, highlightedTimetableId }: MapViewProps) {
+  const { queryDataForDate, queryDataForBounds, isLoading, isRebuilding, events, sources, segmentMetrics } = useDatabase();
+  // The whole network for the period, for the totals and legend; only the visible part is drawn.
+  const [stations, setStations] = useState<StationWithState[]>([]);
+  const [segments, setSegments] = useState<SegmentWithState[]>([]);
+  const [visibleStations, setVisibleStations] = useState<StationWithState[]>([]);
+  const [visibleSegments, setVisibleSegments] = useState<SegmentWithState[]>([]);
+  const [viewport, setViewport] = useState<BoundingBox | null>(null);
+  const [dataPeriodEnd, setDataPeriodEnd] = useState(() => periodFor(currentDate, resolution).end);
   const [showPlanned, setShowPlanned] = useState(false);
+  const [showUndated, setShowUndated] = useState(false);
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
-  const layersRef = useRef<any[]>([]);
+  const segmentLayersRef = useRef(new Map<string, SegmentLayer>());
+  const stationLayersRef = useRef(new Map<string, StationLayer>());
+  const simplifiedRef = useRef(new Map<string, SimplifiedGeometry>());
+  const canvasRenderersRef = useRef(new Map<string, any>());
   const drawLayerRef = useRef<any>(null);
   const drawControlRef = useRef<any>(null);
   const clearControlRef = useRef<any>(null);
   const plannedToggleRef = useRef<HTMLButtonElement | null>(null);
+  const undatedToggleRef = useRef<HTMLButtonElement | null>(null);
   const [currentZoom, setCurrentZoom] = useState(4);
 
   useEffect(() => {
@@ -53,14 +497,22 @@ export function MapView({ currentYear }: MapViewProps) {
   }, [showPlanned]);
 
   useEffect(() => {
-    if (!isLoading) {
+    if (undatedToggleRef.current) {
+      undatedToggleRef.current.style.background = showUndated ? UNDATED_COLOR : '#fff';
+    }
+  }, [showUndated]);
+
+  // Queried again once a rebuild finishes, since the tables behind the results were replaced.
+  useEffect(() => {
+    if (!isLoading && !isRebuilding) {
       let cancelled = false;
 
-      queryDataForYear(currentYear)
+      queryDataForDate(currentDate, resolution)
         .then(data => {
           if (cancelled) return;
           setStations(data.stations);
           setSegments(data.segments);
+          setDataPeriodEnd(periodFor(currentDate, resolution).end);
         })
         .catch(err => {
           console.error('Failed to query map data', err);
@@ -70,7 +522,60 @@ export function MapView({ currentYear }: MapViewProps) {
         cancelled = true;
       };
     }
-  }, [currentYear, isLoading, queryDataForYear]);
+  }, [currentDate, resolution, isLoading, isRebuilding, queryDataForDate]);
+
+  useEffect(() => {
+    if (isLoading || isRebuilding || !viewport) return;
+    let cancelled = false;
+
+    queryDataForBounds(currentDate, resolution, viewport)
+      .then(data => {
+        if (cancelled) return;
+        setVisibleStations(data.stations);
+        setVisibleSegments(data.segments);
+      })
+      .catch(err => {
+        console.error('Failed to query map data for the viewport', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDate, resolution, viewport, isLoading, isRebuilding, queryDataForBounds]);
+
+  const citationIndex = useMemo(() => {
+    const sourcesById = new Map(sources.map(source => [source.source_id, source]));
+    const byStation = new Map<string, Event[]>();
+    const bySegment = new Map<string, Event[]>();
+
+    const push = (index: Map<string, Event[]>, key: string, event: Event) => {
+      const list = index.get(key);
+      if (list) {
+        list.push(event);
+      } else {
+        index.set(key, [event]);
+      }
+    };
+
+    [...events]
+      .sort((a, b) => (a.date || '').localeCompare(b.date || ''))
+      .forEach(event => {
+        if (event.station_id) push(byStation, event.station_id, event);
+        if (event.segment_id) push(bySegment, event.segment_id, event);
+      });
+
+    return { sourcesById, byStation, bySegment };
+  }, [events, sources]);
+
+  // Segments whose metrics (in any period) were taken from the highlighted timetable.
+  const timetableSegmentIds = useMemo(() => {
+    if (!highlightedTimetableId) return null;
+    return new Set(
+      segmentMetrics
+        .filter(metric => metric.timetable_id === highlightedTimetableId)
+        .map(metric => metric.segment_id),
+    );
+  }, [highlightedTimetableId, segmentMetrics]);
 
   // Initialize map
   useEffect(() => {
@@ -86,6 +591,9 @@ export function MapView({ currentYear }: MapViewProps) {
       const L = (window as any).L;
       
       const map = L.map(mapRef.current).setView([55.7558, 37.6173], 4);
+      [SEGMENT_PANE, MOCK_CIRCLE_PANE, STATION_PANE].forEach((pane, index) => {
+        map.createPane(pane).style.zIndex = String(410 + index * 10);
+      });
       
       L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
         attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
@@ -96,6 +604,14 @@ export function MapView({ currentYear }: MapViewProps) {
         setCurrentZoom(map.getZoom());
       });
 
+      // Only what lies in the view (plus a margin, so short pans need no new query) is drawn.
+      const updateViewport = () => {
+        const bounds = map.getBounds().pad(VIEWPORT_MARGIN);
+        setViewport({ south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() });
+      };
+      map.on('moveend', updateViewport);
+      updateViewport();
+
       const initDrawControls = () => {
         if (!(window as any).L || !(window as any).L.Draw) {
           setTimeout(initDrawControls, 100);
@@ -199,6 +715,21 @@ export function MapView({ currentYear }: MapViewProps) {
               setShowPlanned(prev => !prev);
             });
 
+            const undatedToggle = L.DomUtil.create('button', '', container) as HTMLButtonElement;
+            undatedToggle.type = 'button';
+            undatedToggle.title = 'Show or hide stations and segments without any opening or closing event';
+            undatedToggle.innerText = 'Undated';
+            undatedToggle.style.width = '60px';
+            undatedToggle.style.height = '30px';
+            undatedToggle.style.background = showUndated ? UNDATED_COLOR : '#fff';
+            undatedToggle.style.cursor = 'pointer';
+            undatedToggleRef.current = undatedToggle;
+
+            L.DomEvent.disableClickPropagation(undatedToggle);
+            L.DomEvent.on(undatedToggle, 'click', () => {
+              setShowUndated(prev => !prev);
+            });
+
             return container;
           },
         });
@@ -234,208 +765,284 @@ export function MapView({ currentYear }: MapViewProps) {
           mapInstanceRef.current.removeControl(clearControlRef.current);
           clearControlRef.current = null;
         }
+        segmentLayersRef.current.clear();
+        stationLayersRef.current.clear();
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
       }
     };
   }, []);
 
-  // Update layers when data changes
+  // Stations drawn individually and the clusters standing in for the rest. Mock stations are never
+  // clustered, as their radius circles belong to the individual marker.
+  const stationGroups = useMemo(() => {
+    const shown = visibleStations.filter(
+      station => (station.state !== 'planned' || showPlanned) && (station.state !== 'undated' || showUndated),
+    );
+    if (clustering === 'off' || currentZoom > CLUSTER_MAX_ZOOM) {
+      return { singles: shown, clusters: [] };
+    }
+    const keepSeparate = (station: StationWithState) =>
+      isMockStation(station) || (clustering === 'keep-changes' && NOTABLE_STATES.has(station.state));
+    const { singles, clusters } = clusterPoints(
+      shown.filter(station => !keepSeparate(station)),
+      currentZoom,
+      CLUSTER_CELL_PIXELS,
+    );
+    return { singles: [...shown.filter(keepSeparate), ...singles], clusters };
+  }, [visibleStations, showPlanned, showUndated, clustering, currentZoom]);
+
+  // Popups are built when opened, from the layer's current record and these.
+  const popupContextRef = useRef({ citationIndex, dataPeriodEnd });
+  popupContextRef.current = { citationIndex, dataPeriodEnd };
+
+  // Layers keep the renderer they were created with, so switching renderers drops every layer and
+  // lets the effect below recreate them.
+  useEffect(
+    () => () => {
+      segmentLayersRef.current.forEach(entry => entry.layer.remove());
+      segmentLayersRef.current.clear();
+      stationLayersRef.current.forEach(entry => {
+        entry.marker.remove();
+        entry.circle?.remove();
+      });
+      stationLayersRef.current.clear();
+      canvasRenderersRef.current.forEach(canvasRenderer => canvasRenderer.remove());
+      canvasRenderersRef.current.clear();
+    },
+    [renderer],
+  );
+
+  const geometryForBand = (segment: SegmentWithState, band: number) => {
+    const cached = simplifiedRef.current.get(segment.segment_id);
+    if (cached && sameGeometry(cached.geometry, segment.geometry)) return cached.bands[band];
+    const bands = simplifyForBands(segment.geometry);
+    simplifiedRef.current.set(segment.segment_id, { geometry: segment.geometry, bands });
+    return bands[band];
+  };
+
+  // Apply the differences from the previous period or viewport: add, remove or restyle layers by id.
   useEffect(() => {
-    if (!mapInstanceRef.current || !(window as any).L) return;
+    const map = mapInstanceRef.current;
+    if (!map || !(window as any).L) return;
 
     const L = (window as any).L;
 
-    // Clear existing layers
-    layersRef.current.forEach(layer => layer.remove());
-    layersRef.current = [];
+    // One canvas per pane keeps the segment/circle/station stacking of the SVG renderer.
+    const paneOptions = (pane: string) => {
+      if (renderer !== 'canvas') return { pane };
+      let canvasRenderer = canvasRenderersRef.current.get(pane);
+      if (!canvasRenderer) {
+        canvasRenderer = L.canvas({ pane, padding: 0.5 });
+        canvasRenderersRef.current.set(pane, canvasRenderer);
+      }
+      return { pane, renderer: canvasRenderer };
+    };
 
-    // Render segments first (so they appear below stations)
-    segments.forEach(segment => {
-      // Hide planned segments unless explicitly toggled on
-      if (segment.state === 'planned' && !showPlanned) {
+    const visible = (state: EntityState) => (state !== 'planned' || showPlanned) && (state !== 'undated' || showUndated);
+
+    const segmentLayers = segmentLayersRef.current;
+    const band = zoomBand(map.getZoom());
+    const visibleSegmentIds = new Set<string>();
+    visibleSegments.forEach(segment => {
+      if (!visible(segment.state)) return;
+      visibleSegmentIds.add(segment.segment_id);
+
+      const style = resolveSegmentStyle(segment, colorMode, Boolean(timetableSegmentIds?.has(segment.segment_id)));
+      const styleKey = JSON.stringify(style);
+      const existing = segmentLayers.get(segment.segment_id);
+
+      if (!existing) {
+        const entry: SegmentLayer = { segment, layer: null, styleKey, band };
+        entry.layer = L.polyline(geometryForBand(segment, band), { ...style, ...paneOptions(SEGMENT_PANE) });
+        entry.layer.bindPopup(() => {
+          const { citationIndex: index, dataPeriodEnd: periodEnd } = popupContextRef.current;
+          return buildSegmentPopupHTML(
+            entry.segment,
+            buildEventCitationsHTML(index.bySegment.get(entry.segment.segment_id), index.sourcesById, periodEnd),
+          );
+        });
+        entry.layer.addTo(map);
+        segmentLayers.set(segment.segment_id, entry);
         return;
       }
 
-      // Determine color based on state
-      let color = '#000000'; // existing - black
-      let weight = 3;
-      
-      if (segment.state === 'planned') {
-        color = '#94a3b8'; // slate/grey for planned
-        weight = 3;
-      } else if (segment.state === 'new') {
-        color = '#16a34a'; // green
-        weight = 4;
-      } else if (segment.state === 'electrified') {
-        color = '#ea580c'; // orange
-        weight = 4;
-      } else if (segment.state === 'gauge_change') {
-        color = '#9333ea'; // purple
-        weight = 4;
-      } else if (segment.state === 'closed') {
-        color = '#dc2626'; // red
-        weight = 4;
+      if (existing.band !== band || !sameGeometry(existing.segment.geometry, segment.geometry)) {
+        existing.layer.setLatLngs(geometryForBand(segment, band));
+        existing.band = band;
       }
-
-      const polyline = L.polyline(segment.geometry, {
-        color: color,
-        weight: weight,
-        opacity: 0.7,
-      });
-
-      polyline.addTo(mapInstanceRef.current);
-      layersRef.current.push(polyline);
+      if (existing.styleKey !== styleKey) {
+        existing.layer.setStyle(style);
+        existing.styleKey = styleKey;
+      }
+      existing.segment = segment;
+      if (existing.layer.isPopupOpen()) existing.layer.getPopup().update();
     });
-
-    // Compute which stations are endpoints of visible segments
-    const endpointStations = new Set<string>();
-    segments.forEach(segment => {
-      endpointStations.add(segment.from_station_id);
-      endpointStations.add(segment.to_station_id);
+    segmentLayers.forEach((entry, segmentId) => {
+      if (visibleSegmentIds.has(segmentId)) return;
+      entry.layer.remove();
+      segmentLayers.delete(segmentId);
     });
 
-    // Then render stations
-    stations.forEach(station => {
-      const isMock = station.current_status === 'mock';
-      const isEndpoint = endpointStations.has(station.station_id);
-      const isPlanned = station.state === 'planned';
-
-      // Hide planned stations (including planned mocks) when toggle is off
-      if (isPlanned && !showPlanned) {
+    const stationLayers = stationLayersRef.current;
+    const showMockCircles = map.getZoom() >= MOCK_CIRCLE_MIN_ZOOM;
+    const visibleStationIds = new Set<string>();
+    stationGroups.singles.forEach(station => {
+      visibleStationIds.add(station.station_id);
+
+      const style = resolveStationStyle(station);
+      const styleKey = JSON.stringify(style);
+      const existing = stationLayers.get(station.station_id);
+
+      if (!existing) {
+        const entry: StationLayer = { station, marker: null, circle: null, styleKey };
+        const popup = () => {
+          const { citationIndex: index, dataPeriodEnd: periodEnd } = popupContextRef.current;
+          return buildStationPopupHTML(
+            entry.station,
+            buildEventCitationsHTML(index.byStation.get(entry.station.station_id), index.sourcesById, periodEnd),
+          );
+        };
+        entry.marker = L.circleMarker([station.lat, station.lon], { ...style, ...paneOptions(STATION_PANE) });
+        entry.marker.bindPopup(popup);
+        entry.marker.addTo(map);
+        if (isMockStation(station)) {
+          entry.circle = L.circle([station.lat, station.lon], {
+            radius: mockRadiusKm(station) * 1000,
+            color: style.color,
+            fillColor: style.color,
+            fillOpacity: 0.15,
+            weight: 2,
+            opacity: 0.6,
+            ...paneOptions(MOCK_CIRCLE_PANE),
+          });
+          entry.circle.bindPopup(popup);
+          if (showMockCircles) entry.circle.addTo(map);
+        }
+        stationLayers.set(station.station_id, entry);
         return;
       }
 
-      // Build popup content
-      let popupHTML = `
-        <div style="min-width: 200px;">
-          <h3 style="margin-bottom: 0.5rem; font-weight: bold;">${station.name_primary}</h3>
-          <div style="font-size: 0.875rem;">
-            <div><strong>ID:</strong> ${station.station_id}</div>
-            <div><strong>Location:</strong> ${station.lat.toFixed(4)}, ${station.lon.toFixed(4)}</div>
-      `;
-
-      if (station.country_code) {
-        popupHTML += `<div><strong>Country:</strong> ${station.country_code}</div>`;
+      if (existing.station.lat !== station.lat || existing.station.lon !== station.lon) {
+        existing.marker.setLatLng([station.lat, station.lon]);
+        existing.circle?.setLatLng([station.lat, station.lon]);
       }
-      
-      if (station.current_status) {
-        popupHTML += `<div><strong>Status:</strong> ${station.current_status}</div>`;
+      if (existing.styleKey !== styleKey) {
+        existing.marker.setStyle(style);
+        existing.marker.setRadius(style.radius);
+        existing.circle?.setStyle({ color: style.color, fillColor: style.color });
+        existing.styleKey = styleKey;
       }
+      existing.station = station;
+      if (existing.marker.isPopupOpen()) existing.marker.getPopup().update();
+      if (existing.circle?.isPopupOpen()) existing.circle.getPopup().update();
+    });
+    stationLayers.forEach((entry, stationId) => {
+      if (visibleStationIds.has(stationId)) return;
+      entry.marker.remove();
+      entry.circle?.remove();
+      stationLayers.delete(stationId);
+    });
+  }, [stationGroups, visibleSegments, showPlanned, showUndated, colorMode, renderer, timetableSegmentIds]);
 
-      if (station.osm_node_id) {
-        popupHTML += `<div><strong>OSM Node:</strong> <a href="https://www.openstreetmap.org/node/${station.osm_node_id}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">${station.osm_node_id}</a></div>`;
-      }
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !(window as any).L) return;
 
-      if (station.wikidata_id) {
-        popupHTML += `<div><strong>Wikidata:</strong> <a href="https://www.wikidata.org/wiki/${station.wikidata_id}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">${station.wikidata_id}</a></div>`;
-      }
+    const L = (window as any).L;
+    const clusterLayer = L.layerGroup(stationGroups.clusters.map(cluster => createClusterMarker(L, map, cluster))).addTo(map);
+    return () => {
+      clusterLayer.remove();
+    };
+  }, [stationGroups]);
 
-      if (station.wikipedia_ru) {
-        popupHTML += `<div><strong>Wikipedia (RU):</strong> <a href="https://ru.wikipedia.org/wiki/${encodeURIComponent(station.wikipedia_ru)}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">${station.wikipedia_ru}</a></div>`;
-      }
+  // Crossing into another zoom band swaps each drawn segment to its geometry for that band.
+  const geometryBand = zoomBand(currentZoom);
+  useEffect(() => {
+    segmentLayersRef.current.forEach(entry => {
+      if (entry.band === geometryBand) return;
+      entry.layer.setLatLngs(geometryForBand(entry.segment, geometryBand));
+      entry.band = geometryBand;
+    });
+  }, [geometryBand]);
 
-      if (station.parovoz_url) {
-        popupHTML += `<div><strong>Parovoz:</strong> <a href="${station.parovoz_url}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: underline;">Link</a></div>`;
+  // Mock-station radius circles are only shown from MOCK_CIRCLE_MIN_ZOOM.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    const showMockCircles = currentZoom >= MOCK_CIRCLE_MIN_ZOOM;
+    stationLayersRef.current.forEach(entry => {
+      if (!entry.circle) return;
+      if (showMockCircles) {
+        entry.circle.addTo(map);
+      } else {
+        entry.circle.remove();
       }
+    });
+  }, [currentZoom]);
 
-      Object.entries(station.alternative_names).forEach(([key, value]) => {
-        popupHTML += `<div><strong>${key}:</strong> ${value}</div>`;
-      });
+  const networkTotals = useMemo(() => {
+    let openKm = 0;
+    let electrifiedKm = 0;
+    let openSegments = 0;
+    let segmentsWithoutLength = 0;
+    let closedKm = 0;
+    let closedSegments = 0;
 
-      if (station.notes) {
-        popupHTML += `<div style="margin-top: 0.5rem; padding-top: 0.5rem; border-top: 1px solid #e2e8f0;"><strong>Notes:</strong> ${station.notes}</div>`;
+    segments.forEach(segment => {
+      // Undated segments cannot be placed in time, so they are left out of the totals.
+      if (segment.state === 'planned' || segment.state === 'undated') return;
+      // Segments closed in the period are still drawn; they are totalled separately rather than as open.
+      if (segment.state === 'closed') {
+        closedSegments += 1;
+        closedKm += segment.length_km ?? 0;
+        return;
       }
 
-      popupHTML += `</div></div>`;
-
-      const plannedColor = '#94a3b8';
-      const newColor = '#16a34a';
-      const closedColor = '#dc2626';
-      const existingColor = '#000000';
-      const mockBaseColor = '#eab308';
-      const electrifiedColor = '#ea580c';
-      const gaugeChangeColor = '#9333ea';
-
-      // Determine station color by state, with mock-specific overrides
-      const resolveStationColor = () => {
-        if (isMock) {
-          if (station.state === 'new') return newColor; // mock but newly constructed -> green
-          if (station.state === 'closed') return closedColor;
-          if (station.state === 'electrified') return electrifiedColor;
-          if (station.state === 'gauge_change') return gaugeChangeColor;
-          if (station.state === 'planned') return mockBaseColor; // planned mock stays yellow
-          return mockBaseColor; // existing mock
-        }
-
-        if (station.state === 'planned') return plannedColor;
-        if (station.state === 'new') return newColor;
-        if (station.state === 'closed') return closedColor;
-        if (station.state === 'electrified') return electrifiedColor;
-        if (station.state === 'gauge_change') return gaugeChangeColor;
-        return existingColor;
-      };
-
-      const markerColor = resolveStationColor();
-
-      if (isMock) {
-        // Extract radius if available
-        let radius = 5; // default radius in km
-        if (station.notes) {
-          const match = station.notes.match(/<radius\s+([\d.]+)>/);
-          if (match) {
-            radius = parseFloat(match[1]);
-          }
-        }
-        
-        // Show circle only at zoom level 7 or higher
-        if (currentZoom >= 7) {
-          const radiusMeters = radius * 1000;
-          
-          const circle = L.circle([station.lat, station.lon], {
-            radius: radiusMeters,
-            color: markerColor,
-            fillColor: markerColor,
-            fillOpacity: 0.15,
-            weight: 2,
-            opacity: 0.6,
-          });
+      openSegments += 1;
+      if (segment.length_km == null) {
+        segmentsWithoutLength += 1;
+        return;
+      }
 
-          circle.bindPopup(popupHTML);
-          circle.addTo(mapInstanceRef.current);
-          layersRef.current.push(circle);
-        }
-        
-        // Always show a regular marker for mock stations (toggle already applied for planned)
-        const marker = L.circleMarker([station.lat, station.lon], {
-          radius: 5,
-          color: markerColor,
-          fillColor: markerColor,
-          fillOpacity: 0.8,
-          weight: 2,
-        });
+      openKm += segment.length_km;
+      // segmentsForPeriod only reports electrifications up to the end of the period.
+      if (segment.electrified || segment.electrified_since != null) {
+        electrifiedKm += segment.length_km;
+      }
+    });
 
-        marker.bindPopup(popupHTML);
-        marker.addTo(mapInstanceRef.current);
-        layersRef.current.push(marker);
-      } else {
-        // Regular station
-        let fillOpacity = station.state === 'planned' ? 0.6 : 0.9;
-
-        const marker = L.circleMarker([station.lat, station.lon], {
-          radius: 4,
-          color: markerColor,
-          fillColor: markerColor,
-          fillOpacity,
-          weight: 1,
-        });
+    return {
+      openKm,
+      electrifiedKm,
+      openSegments,
+      segmentsWithoutLength,
+      closedKm,
+      closedSegments,
+      undatedStations: stations.filter(station => station.state === 'undated').length,
+      undatedSegments: segments.filter(segment => segment.state === 'undated').length,
+    };
+  }, [stations, segments]);
 
-        marker.bindPopup(popupHTML);
-        marker.addTo(mapInstanceRef.current);
-        layersRef.current.push(marker);
-      }
+  const legendEntries: ThematicStyle[] = [];
+  if (colorMode !== 'state') {
+    const seen = new Set<string>();
+    segments.forEach(segment => {
+      if (segment.state === 'planned' && !showPlanned) return;
+      if (segment.state === 'undated' && !showUndated) return;
+      const style = resolveThematicStyle(segment, colorMode);
+      const key = `${style.label}|${style.color}|${style.weight}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      legendEntries.push(style);
+    });
+    legendEntries.sort((a, b) => {
+      if (a.sortKey === null || b.sortKey === null) return Number(a.sortKey === null) - Number(b.sortKey === null);
+      if (typeof a.sortKey === 'number' && typeof b.sortKey === 'number') return a.sortKey - b.sortKey;
+      return String(a.sortKey).localeCompare(String(b.sortKey));
     });
-  }, [stations, segments, currentZoom, showPlanned]);
+  }
 
   if (isLoading) {
     return (
@@ -446,6 +1053,32 @@ export function MapView({ currentYear }: MapViewProps) {
   }
 
   return (
-    <div ref={mapRef} style={{ height: '100%', width: '100%' }} />
+    <div className="relative h-full">
+      <div ref={mapRef} style={{ height: '100%', width: '100%' }} />
+      <div style={{ position: 'absolute', top: '0.75rem', right: '0.75rem', zIndex: 1000 }}>
+        <NetworkTotals periodLabel={formatPeriodLabel(currentDate, resolution)} {...networkTotals} />
+      </div>
+      {legendEntries.length > 0 && (
+        <div
+          className="rounded shadow-lg text-sm p-2"
+          style={{
+            position: 'absolute',
+            right: '1rem',
+            bottom: '1.5rem',
+            zIndex: 1000,
+            maxHeight: '16rem',
+            overflowY: 'auto',
+            background: 'rgba(255, 255, 255, 0.9)',
+          }}
+        >
+          {legendEntries.map(entry => (
+            <div key={`${entry.label}-${entry.color}-${entry.weight}`} className="flex items-center gap-2">
+              <div className="w-8" style={{ background: entry.color, height: `${entry.weight}px` }}></div>
+              <span>{entry.label}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
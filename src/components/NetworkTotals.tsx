@@ -0,0 +1,54 @@
+interface NetworkTotalsProps {
+  periodLabel: string;
+  openKm: number;
+  electrifiedKm: number;
+  openSegments: number;
+  segmentsWithoutLength: number;
+  closedKm: number;
+  closedSegments: number;
+  undatedStations: number;
+  undatedSegments: number;
+}
+
+const formatKm = (km: number) => `${km.toLocaleString('en-US', { maximumFractionDigits: 1 })} km`;
+
+export function NetworkTotals({
+  periodLabel,
+  openKm,
+  electrifiedKm,
+  openSegments,
+  segmentsWithoutLength,
+  closedKm,
+  closedSegments,
+  undatedStations,
+  undatedSegments,
+}: NetworkTotalsProps) {
+  const electrifiedShare = openKm > 0 ? (electrifiedKm / openKm) * 100 : 0;
+
+  return (
+    <div
+      className="rounded shadow-lg text-sm p-2"
+      style={{ background: 'rgba(255, 255, 255, 0.9)', minWidth: '12rem' }}
+    >
+      <div style={{ fontWeight: 'bold' }}>Network in {periodLabel}</div>
+      <div><strong>Open:</strong> {formatKm(openKm)}</div>
+      <div>
+        <strong>Electrified:</strong> {formatKm(electrifiedKm)} ({electrifiedShare.toFixed(1)}%)
+      </div>
+      <div><strong>Open segments:</strong> {openSegments.toLocaleString('en-US')}</div>
+      {segmentsWithoutLength > 0 && (
+        <div className="text-red-600">{segmentsWithoutLength} open segments have no length</div>
+      )}
+      {closedSegments > 0 && (
+        <div style={{ color: '#78716c' }} title="Drawn on the map, but not counted as open">
+          <strong>Closed in period:</strong> {formatKm(closedKm)} ({closedSegments.toLocaleString('en-US')} segments)
+        </div>
+      )}
+      {(undatedStations > 0 || undatedSegments > 0) && (
+        <div style={{ color: '#78716c' }} title="Records without any opening or closing event">
+          <strong>Undated:</strong> {undatedStations.toLocaleString('en-US')} stations, {undatedSegments.toLocaleString('en-US')} segments
+        </div>
+      )}
+    </div>
+  );
+}
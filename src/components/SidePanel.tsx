@@ -0,0 +1,40 @@
+import { ReactNode } from 'react';
+import { X } from 'lucide-react';
+
+interface SidePanelProps {
+  title: string;
+  onClose: () => void;
+  // Buttons shown between the title and the close button.
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+// Panel over the right-hand side of the map, used by the dataset, sources, timetables and diagnostics views.
+export function SidePanel({ title, onClose, actions, children }: SidePanelProps) {
+  return (
+    <div
+      className="shadow-lg text-sm p-4"
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: '32rem',
+        maxWidth: '100%',
+        overflowY: 'auto',
+        background: '#fff',
+        zIndex: 1100,
+      }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <h2 className="flex-1" style={{ fontWeight: 'bold' }}>{title}</h2>
+        {actions}
+        <button type="button" onClick={onClose} className="p-2 rounded hover:bg-slate-200" aria-label={`Close ${title.toLowerCase()}`}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useMemo } from 'react';
+import { useDatabase } from './DatabaseContext';
+import { SidePanel } from './SidePanel';
+import { downloadText, formatCitation, toBibTeX, toCslJson } from './citations';
+
+interface SourcesPanelProps {
+  onClose: () => void;
+}
+
+export function SourcesPanel({ onClose }: SourcesPanelProps) {
+  const { sources, events, stationNames } = useDatabase();
+
+  const rows = useMemo(() => {
+    const eventCounts = new Map<string, number>();
+    const nameCounts = new Map<string, number>();
+    events.forEach(event => {
+      if (event.source_id) eventCounts.set(event.source_id, (eventCounts.get(event.source_id) ?? 0) + 1);
+    });
+    stationNames.forEach(name => {
+      if (name.source_id) nameCounts.set(name.source_id, (nameCounts.get(name.source_id) ?? 0) + 1);
+    });
+
+    // Cited ids without a row in sources.parquet are listed too, so they can be added to the bibliography.
+    const ids = new Set([...sources.map(source => source.source_id), ...eventCounts.keys()]);
+    const sourcesById = new Map(sources.map(source => [source.source_id, source]));
+
+    return [...ids]
+      .map(id => ({
+        id,
+        citation: formatCitation(sourcesById.get(id), id),
+        url: sourcesById.get(id)?.url,
+        missing: !sourcesById.has(id),
+        events: eventCounts.get(id) ?? 0,
+        names: nameCounts.get(id) ?? 0,
+      }))
+      .sort((a, b) => b.events - a.events || a.id.localeCompare(b.id));
+  }, [sources, events, stationNames]);
+
+  return (
+    <SidePanel
+      title="Sources"
+      onClose={onClose}
+      actions={
+        <>
+          <button
+            type="button"
+            onClick={() => downloadText('sources.json', toCslJson(sources), 'application/vnd.citationstyles.csl+json')}
+            className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600"
+          >
+            CSL-JSON
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadText('sources.bib', toBibTeX(sources), 'application/x-bibtex')}
+            className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600"
+          >
+            BibTeX
+          </button>
+        </>
+      }
+    >
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #cbd5e1' }}>
+            <th>Source</th>
+            <th className="text-right">Events</th>
+            <th className="text-right">Names</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.id} style={{ borderBottom: '1px solid #e2e8f0', verticalAlign: 'top' }}>
+              <td style={{ padding: '0.25rem 0.5rem 0.25rem 0' }}>
+                <div>
+                  {row.url ? (
+                    <a href={row.url} target="_blank" rel="noopener noreferrer" className="underline" style={{ color: '#2563eb' }}>
+                      {row.citation}
+                    </a>
+                  ) : (
+                    row.citation
+                  )}
+                </div>
+                <div style={{ color: '#64748b' }}>
+                  {row.id}
+                  {row.missing && <span className="text-red-600"> (not in sources.parquet)</span>}
+                </div>
+              </td>
+              <td className="text-right">{row.events.toLocaleString('en-US')}</td>
+              <td className="text-right">{row.names.toLocaleString('en-US')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </SidePanel>
+  );
+}
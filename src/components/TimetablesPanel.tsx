@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { useDatabase } from './DatabaseContext';
+import { SidePanel } from './SidePanel';
+
+interface TimetablesPanelProps {
+  selectedTimetableId: string | null;
+  onSelectTimetable: (timetableId: string | null) => void;
+  onClose: () => void;
+}
+
+const formatMinutes = (minutes?: number) => (minutes != null ? `${Math.round(minutes)} min` : '–');
+
+export function TimetablesPanel({ selectedTimetableId, onSelectTimetable, onClose }: TimetablesPanelProps) {
+  const { timetables, segmentMetrics, segments, stations } = useDatabase();
+
+  const segmentCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    segmentMetrics.forEach(metric => {
+      if (metric.timetable_id) counts.set(metric.timetable_id, (counts.get(metric.timetable_id) ?? 0) + 1);
+    });
+    return counts;
+  }, [segmentMetrics]);
+
+  const contributedRows = useMemo(() => {
+    if (!selectedTimetableId) return [];
+
+    const segmentsById = new Map(segments.map(segment => [segment.segment_id, segment]));
+    const stationNamesById = new Map(stations.map(station => [station.station_id, station.name_primary]));
+
+    return segmentMetrics
+      .filter(metric => metric.timetable_id === selectedTimetableId)
+      .map(metric => {
+        const segment = segmentsById.get(metric.segment_id);
+        const from = segment ? stationNamesById.get(segment.from_station_id) ?? segment.from_station_id : '';
+        const to = segment ? stationNamesById.get(segment.to_station_id) ?? segment.to_station_id : '';
+        return { metric, route: segment ? `${from} – ${to}` : metric.segment_id };
+      })
+      .sort((a, b) => a.route.localeCompare(b.route));
+  }, [selectedTimetableId, segmentMetrics, segments, stations]);
+
+  return (
+    <SidePanel title="Timetables" onClose={onClose}>
+      {timetables.length === 0 && <p>No timetables in the dataset.</p>}
+
+      {timetables.map(timetable => {
+        const isSelected = timetable.timetable_id === selectedTimetableId;
+        return (
+          <button
+            key={timetable.timetable_id}
+            type="button"
+            onClick={() => onSelectTimetable(isSelected ? null : timetable.timetable_id)}
+            className="rounded p-2 mb-4"
+            style={{
+              display: 'block',
+              width: '100%',
+              textAlign: 'left',
+              border: `1px solid ${isSelected ? '#0ea5e9' : '#e2e8f0'}`,
+              background: isSelected ? '#e0f2fe' : '#fff',
+            }}
+          >
+            <div style={{ fontWeight: 'bold' }}>{timetable.title}</div>
+            <div>
+              {timetable.valid_from ?? '?'} – {timetable.valid_to ?? '?'}
+              {timetable.operator && ` · ${timetable.operator}`}
+            </div>
+            <div style={{ color: '#64748b' }}>
+              {timetable.timetable_id} · {segmentCounts.get(timetable.timetable_id) ?? 0} segments
+            </div>
+          </button>
+        );
+      })}
+
+      {selectedTimetableId && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', borderBottom: '1px solid #cbd5e1' }}>
+              <th>Segment</th>
+              <th className="text-right">km</th>
+              <th className="text-right">Passenger</th>
+              <th className="text-right">Express</th>
+              <th className="text-right">Freight</th>
+            </tr>
+          </thead>
+          <tbody>
+            {contributedRows.map(({ metric, route }) => (
+              <tr key={metric.segment_metric_id} style={{ borderBottom: '1px solid #e2e8f0' }}>
+                <td style={{ padding: '0.25rem 0.5rem 0.25rem 0' }}>{route}</td>
+                <td className="text-right">{metric.length_km != null ? metric.length_km.toFixed(1) : '–'}</td>
+                <td className="text-right">{formatMinutes(metric.passenger_time_min)}</td>
+                <td className="text-right">{formatMinutes(metric.express_time_min)}</td>
+                <td className="text-right">{formatMinutes(metric.freight_time_min)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </SidePanel>
+  );
+}
@@ -1,67 +1,122 @@
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { TimeResolution, formatPeriodLabel, fromStepIndex, toStepIndex } from './dates';
 
 interface YearControlsProps {
-  currentYear: number;
-  onYearChange: (year: number) => void;
+  currentDate: string;
+  onDateChange: (date: string) => void;
+  resolution: TimeResolution;
+  onResolutionChange: (resolution: TimeResolution) => void;
   minYear: number;
   maxYear: number;
+  // Optional period (e.g. a timetable's validity window) marked below the slider.
+  highlightRange?: { from: number; to: number } | null;
 }
 
-export function YearControls({ currentYear, onYearChange, minYear, maxYear }: YearControlsProps) {
+export function YearControls({
+  currentDate,
+  onDateChange,
+  resolution,
+  onResolutionChange,
+  minYear,
+  maxYear,
+  highlightRange,
+}: YearControlsProps) {
+  const currentStep = toStepIndex(currentDate, resolution, minYear);
+  const maxStep = toStepIndex(`${maxYear}-12-31`, resolution, minYear);
+
   const handlePrevious = () => {
-    if (currentYear > minYear) {
-      onYearChange(currentYear - 1);
+    if (currentStep > 0) {
+      onDateChange(fromStepIndex(currentStep - 1, resolution, minYear));
     }
   };
 
   const handleNext = () => {
-    if (currentYear < maxYear) {
-      onYearChange(currentYear + 1);
+    if (currentStep < maxStep) {
+      onDateChange(fromStepIndex(currentStep + 1, resolution, minYear));
     }
   };
 
+  const toPercent = (date: string) => (Math.min(Math.max(toStepIndex(date, resolution, minYear), 0), maxStep) / maxStep) * 100;
+
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    onYearChange(parseInt(e.target.value));
+    onDateChange(fromStepIndex(parseInt(e.target.value), resolution, minYear));
+  };
+
+  // Switching to a coarser resolution snaps the date to the start of its year or month.
+  const handleResolutionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value as TimeResolution;
+    onResolutionChange(next);
+    onDateChange(fromStepIndex(toStepIndex(currentDate, next, minYear), next, minYear));
   };
 
+  const progress = (currentStep / maxStep) * 100;
+
   return (
     <div className="flex items-center gap-4">
       <button
         onClick={handlePrevious}
-        disabled={currentYear <= minYear}
+        disabled={currentStep <= 0}
         className="p-2 bg-slate-700 text-white rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
-        aria-label="Previous year"
+        aria-label={`Previous ${resolution}`}
       >
         <ChevronLeft className="w-5 h-5" />
       </button>
 
       <div className="flex-1 flex items-center gap-3">
         <span className="min-w-[4rem]">{minYear}</span>
-        <input
-          type="range"
-          min={minYear}
-          max={maxYear}
-          value={currentYear}
-          onChange={handleSliderChange}
-          className="flex-1 h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer"
-          style={{
-            background: `linear-gradient(to right, #334155 0%, #334155 ${((currentYear - minYear) / (maxYear - minYear)) * 100}%, #cbd5e1 ${((currentYear - minYear) / (maxYear - minYear)) * 100}%, #cbd5e1 100%)`
-          }}
-        />
+        <div className="flex-1 relative flex items-center">
+          <input
+            type="range"
+            min={0}
+            max={maxStep}
+            value={currentStep}
+            onChange={handleSliderChange}
+            className="flex-1 h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer"
+            style={{
+              background: `linear-gradient(to right, #334155 0%, #334155 ${progress}%, #cbd5e1 ${progress}%, #cbd5e1 100%)`
+            }}
+          />
+          {highlightRange && (
+            <div
+              title={`${highlightRange.from}–${highlightRange.to}`}
+              style={{
+                position: 'absolute',
+                top: 'calc(50% + 0.5rem)',
+                left: `${toPercent(`${highlightRange.from}-01-01`)}%`,
+                width: `${Math.max(toPercent(`${highlightRange.to}-12-31`) - toPercent(`${highlightRange.from}-01-01`), 0.5)}%`,
+                height: '4px',
+                background: '#0ea5e9',
+                borderRadius: '2px',
+              }}
+            />
+          )}
+        </div>
         <span className="min-w-[4rem] text-right">{maxYear}</span>
       </div>
 
       <button
         onClick={handleNext}
-        disabled={currentYear >= maxYear}
+        disabled={currentStep >= maxStep}
         className="p-2 bg-slate-700 text-white rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
-        aria-label="Next year"
+        aria-label={`Next ${resolution}`}
       >
         <ChevronRight className="w-5 h-5" />
       </button>
 
+      <select
+        value={resolution}
+        onChange={handleResolutionChange}
+        className="rounded border border-slate-300"
+        style={{ padding: '0.5rem', background: '#fff' }}
+        aria-label="Time resolution"
+      >
+        <option value="year">Year</option>
+        <option value="month">Month</option>
+        <option value="day">Day</option>
+      </select>
+
       <div className="px-4 py-2 bg-slate-700 text-white rounded min-w-[5rem] text-center">
-        {currentYear}
+        {formatPeriodLabel(currentDate, resolution)}
       </div>
     </div>
   );
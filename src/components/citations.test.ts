@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Source, formatCitation, toBibTeX, toCslJson } from './citations';
+
+const afonina: Source = {
+  source_id: 'afonina-1995',
+  title: 'Kratkie svedeniya o razvitii otechestvennykh zheleznykh dorog',
+  author: 'Afonina, G. M.; Ministry of Railways',
+  year: 1995,
+  type: 'Book',
+  details: 'Moscow, 100% complete & revised',
+  url: 'https://example.org/afonina_1995',
+};
+
+describe('formatCitation', () => {
+  it('cites a source by its authors, year, title, details and page', () => {
+    expect(formatCitation(afonina, 'afonina-1995', '12')).toBe(
+      'Afonina, G. M.; Ministry of Railways (1995). Kratkie svedeniya o razvitii otechestvennykh zheleznykh dorog. Moscow, 100% complete & revised, p. 12',
+    );
+  });
+
+  it('falls back to the source id', () => {
+    expect(formatCitation({ source_id: 'osm' }, 'osm')).toBe('osm');
+    expect(formatCitation(undefined, 'unknown', '3')).toBe('unknown, p. 3');
+  });
+});
+
+describe('toCslJson', () => {
+  it('splits personal authors into family and given names', () => {
+    const [item] = JSON.parse(toCslJson([afonina]));
+    expect(item).toEqual({
+      id: 'afonina-1995',
+      type: 'book',
+      title: afonina.title,
+      author: [{ family: 'Afonina', given: 'G. M.' }, { literal: 'Ministry of Railways' }],
+      issued: { 'date-parts': [[1995]] },
+      URL: afonina.url,
+      note: afonina.details,
+    });
+  });
+
+  it('types unknown sources as documents titled by their id', () => {
+    expect(JSON.parse(toCslJson([{ source_id: 'osm', type: 'wiki' }]))).toEqual([
+      { id: 'osm', type: 'document', title: 'osm', author: [] },
+    ]);
+  });
+});
+
+describe('toBibTeX', () => {
+  it('escapes special characters in every field but the URL', () => {
+    expect(toBibTeX([afonina])).toBe(
+      [
+        '@book{afonina-1995,',
+        '  title = {Kratkie svedeniya o razvitii otechestvennykh zheleznykh dorog},',
+        '  author = {Afonina, G. M. and Ministry of Railways},',
+        '  year = {1995},',
+        '  url = {https://example.org/afonina_1995},',
+        '  note = {Moscow, 100\\% complete \\& revised}',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it('uses misc for unknown types and makes the id a valid key', () => {
+    expect(toBibTeX([{ source_id: 'osm 2024/01' }])).toBe('@misc{osm_2024_01,\n  title = {osm 2024/01}\n}');
+  });
+});
@@ -0,0 +1,112 @@
+export interface Source {
+  source_id: string;
+  title?: string;
+  author?: string;
+  year?: number;
+  type?: string;
+  details?: string;
+  url?: string;
+  language?: string;
+  notes?: string;
+}
+
+const CSL_TYPES: Record<string, string> = {
+  book: 'book',
+  article: 'article-journal',
+  chapter: 'chapter',
+  map: 'map',
+  report: 'report',
+  thesis: 'thesis',
+  web: 'webpage',
+  website: 'webpage',
+  database: 'dataset',
+  dataset: 'dataset',
+};
+
+const BIBTEX_TYPES: Record<string, string> = {
+  book: 'book',
+  article: 'article',
+  chapter: 'incollection',
+  report: 'techreport',
+  thesis: 'phdthesis',
+};
+
+// Authors are stored as one string, separated by semicolons ("Afonina, G. M.; Ivanov, P.").
+const splitAuthors = (author?: string) =>
+  (author ?? '')
+    .split(';')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+export const formatCitation = (source: Source | undefined, sourceId: string, page?: string) => {
+  if (!source) {
+    return page ? `${sourceId}, p. ${page}` : sourceId;
+  }
+
+  const authors = splitAuthors(source.author).join('; ');
+  let citation = authors || source.source_id;
+  if (source.year != null) {
+    citation += ` (${source.year})`;
+  }
+  if (source.title) {
+    citation += `. ${source.title}`;
+  }
+  if (source.details) {
+    citation += `. ${source.details}`;
+  }
+  if (page) {
+    citation += `, p. ${page}`;
+  }
+  return citation;
+};
+
+export const toCslJson = (sources: Source[]) =>
+  JSON.stringify(
+    sources.map(source => ({
+      id: source.source_id,
+      type: CSL_TYPES[source.type?.toLowerCase() ?? ''] ?? 'document',
+      title: source.title ?? source.source_id,
+      author: splitAuthors(source.author).map(name => {
+        const [family, given] = name.split(',').map(part => part.trim());
+        return given ? { family, given } : { literal: family };
+      }),
+      ...(source.year != null ? { issued: { 'date-parts': [[source.year]] } } : {}),
+      ...(source.url ? { URL: source.url } : {}),
+      ...(source.language ? { language: source.language } : {}),
+      ...(source.details ? { note: source.details } : {}),
+    })),
+    null,
+    2,
+  );
+
+const escapeBibTeX = (value: string) => value.replace(/([{}%&$#_])/g, '\\$1');
+
+export const toBibTeX = (sources: Source[]) =>
+  sources
+    .map(source => {
+      const fields: [string, string | undefined][] = [
+        ['title', source.title ?? source.source_id],
+        ['author', splitAuthors(source.author).join(' and ') || undefined],
+        ['year', source.year != null ? String(source.year) : undefined],
+        ['url', source.url],
+        ['language', source.language],
+        ['note', source.details],
+      ];
+      const body = fields
+        .filter(([, value]) => value)
+        .map(([key, value]) => `  ${key} = {${key === 'url' ? value : escapeBibTeX(value!)}}`)
+        .join(',\n');
+      const type = BIBTEX_TYPES[source.type?.toLowerCase() ?? ''] ?? 'misc';
+      const key = source.source_id.replace(/[^A-Za-z0-9_:-]/g, '_');
+      return `@${type}{${key},\n${body}\n}`;
+    })
+    .join('\n\n');
+
+export const downloadText = (filename: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DatasetChecksumError, DatasetManifest, fetchDatasetFile, registerDatasetBuffer } from './datasetCache';
+
+// Stands in for AsyncDuckDB, which posts the bytes to its worker with their buffer in the transfer list.
+const transferringDb = () => {
+  const registered: number[][] = [];
+  return {
+    registered,
+    registerFileBuffer: async (_name: string, buffer: Uint8Array) => {
+      registered.push(Array.from(structuredClone(buffer, { transfer: [buffer.buffer] })));
+    },
+  };
+};
+
+describe('registerDatasetBuffer', () => {
+  it('keeps the loaded file usable for a rebuild and two retries', async () => {
+    const db = transferringDb();
+    const buffer = new Uint8Array([1, 2, 3, 4]).buffer;
+
+    await registerDatasetBuffer(db, 'stations.parquet', buffer);
+    await registerDatasetBuffer(db, 'stations.parquet', buffer);
+    await registerDatasetBuffer(db, 'stations.parquet', buffer);
+
+    expect(buffer.byteLength).toBe(4);
+    expect(db.registered).toEqual([
+      [1, 2, 3, 4],
+      [1, 2, 3, 4],
+      [1, 2, 3, 4],
+    ]);
+  });
+});
+
+describe('fetchDatasetFile', () => {
+  const manifest = (sha256: string): DatasetManifest => ({
+    manifest_version: 1,
+    version: 'test',
+    datasets: [{ name: 'stations', file: 'stations.csv', format: 'csv', schema_version: 1, rows: 1, bytes: 3, sha256 }],
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('rejects a download that does not match its manifest checksum', async () => {
+    vi.stubGlobal('fetch', async () => new Response('abc'));
+    await expect(fetchDatasetFile('/', 'stations.csv', manifest('0'.repeat(64)))).rejects.toBeInstanceOf(DatasetChecksumError);
+  });
+
+  it('returns a download that matches its manifest checksum', async () => {
+    vi.stubGlobal('fetch', async () => new Response('abc'));
+    // SHA-256 of "abc".
+    const buffer = await fetchDatasetFile('/', 'stations.csv', manifest('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'));
+    expect(new TextDecoder().decode(buffer)).toBe('abc');
+  });
+});
@@ -0,0 +1,195 @@
+export interface ManifestDataset {
+  name: string;
+  file: string;
+  format: string;
+  schema_version: number;
+  rows: number;
+  bytes: number;
+  sha256: string;
+}
+
+export interface DatasetManifest {
+  manifest_version: number;
+  version: string;
+  datasets: ManifestDataset[];
+}
+
+export class DatasetFetchError extends Error {
+  status: number;
+
+  constructor(file: string, status: number) {
+    super(`Failed to load ${file} (${status})`);
+    this.name = 'DatasetFetchError';
+    this.status = status;
+  }
+}
+
+// A download that does not match its manifest entry, e.g. a stale copy from an HTTP cache or CDN.
+export class DatasetChecksumError extends Error {
+  bytes: number;
+
+  constructor(file: string, bytes: number) {
+    super(`${file} does not match its SHA-256 checksum in manifest.json`);
+    this.name = 'DatasetChecksumError';
+    this.bytes = bytes;
+  }
+}
+
+const DB_NAME = 'railway-history-dataset';
+const STORE_NAME = 'files';
+
+// Cached files are keyed by name and content hash, so a changed file is simply a cache miss.
+const cacheKey = (entry: ManifestDataset) => `${entry.file}@${entry.sha256}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null when IndexedDB is unavailable (private windows, old browsers); loading then goes to the network.
+const openCache = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+};
+
+const readCached = async (key: string) => {
+  const db = await openCache();
+  if (!db) return undefined;
+  try {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return (await requestToPromise(store.get(key))) as ArrayBuffer | undefined;
+  } catch (err) {
+    console.warn(`Dataset cache read failed for ${key}`, err);
+    return undefined;
+  }
+};
+
+const writeCached = async (key: string, buffer: ArrayBuffer) => {
+  const db = await openCache();
+  if (!db) return;
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(buffer, key));
+  } catch (err) {
+    // Quota errors only cost a re-download next time.
+    console.warn(`Dataset cache write failed for ${key}`, err);
+  }
+};
+
+const sha256Hex = async (buffer: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// The manifest is always revalidated with the server; it is what decides whether cached files are still current.
+export const loadManifest = async (base: string): Promise<DatasetManifest | null> => {
+  try {
+    const res = await fetch(`${base}data/manifest.json`, { cache: 'no-cache' });
+    if (!res.ok) return null;
+    return (await res.json()) as DatasetManifest;
+  } catch (err) {
+    console.warn('Dataset manifest unavailable, loading without cache', err);
+    return null;
+  }
+};
+
+export type DownloadProgressHandler = (progress: { receivedBytes: number; totalBytes?: number; fromCache: boolean }) => void;
+
+// Reads the body chunk by chunk so progress can be reported while the file downloads.
+const readWithProgress = async (res: Response, totalBytes: number | undefined, onProgress?: DownloadProgressHandler) => {
+  if (!res.body || !onProgress) {
+    return res.arrayBuffer();
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let receivedBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    receivedBytes += value.byteLength;
+    onProgress({ receivedBytes, totalBytes, fromCache: false });
+  }
+
+  const bytes = new Uint8Array(receivedBytes);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes.buffer;
+};
+
+export const fetchDatasetFile = async (
+  base: string,
+  file: string,
+  manifest: DatasetManifest | null,
+  onProgress?: DownloadProgressHandler,
+) => {
+  const entry = manifest?.datasets.find(candidate => candidate.file === file);
+
+  if (entry) {
+    const cached = await readCached(cacheKey(entry));
+    if (cached) {
+      onProgress?.({ receivedBytes: cached.byteLength, totalBytes: cached.byteLength, fromCache: true });
+      return cached;
+    }
+  }
+
+  const res = await fetch(`${base}data/${file}`);
+  if (!res.ok) {
+    throw new DatasetFetchError(file, res.status);
+  }
+  // The manifest size is exact; Content-Length may be the compressed size.
+  const contentLength = Number(res.headers.get('Content-Length'));
+  const totalBytes = entry?.bytes ?? (contentLength > 0 ? contentLength : undefined);
+  const buffer = await readWithProgress(res, totalBytes, onProgress);
+
+  // Only what matches the manifest is used and cached, so a stale HTTP cache or CDN cannot poison
+  // this or later sessions.
+  if (entry && crypto.subtle) {
+    if ((await sha256Hex(buffer)) !== entry.sha256) {
+      throw new DatasetChecksumError(file, buffer.byteLength);
+    }
+    await writeCached(cacheKey(entry), buffer);
+  }
+
+  return buffer;
+};
+
+// AsyncDuckDB.registerFileBuffer transfers the bytes to the DuckDB worker, which detaches them. Loaded
+// files are kept for rebuilds (local files, resets, retries), so DuckDB gets a copy every time.
+export const registerDatasetBuffer = (
+  db: { registerFileBuffer: (name: string, buffer: Uint8Array) => Promise<void> },
+  file: string,
+  buffer: ArrayBuffer,
+) => db.registerFileBuffer(file, new Uint8Array(buffer.slice(0)));
+
+// Drops cached files that are not part of the current manifest.
+export const pruneDatasetCache = async (manifest: DatasetManifest) => {
+  const db = await openCache();
+  if (!db) return;
+  const current = new Set(manifest.datasets.map(cacheKey));
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const keys = await requestToPromise(store.getAllKeys());
+    keys.filter(key => !current.has(String(key))).forEach(key => store.delete(key));
+  } catch (err) {
+    console.warn('Dataset cache cleanup failed', err);
+  }
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetManifest, ManifestDataset } from './datasetCache';
+import {
+  DATASET_SCHEMAS,
+  DatasetSchema,
+  checkColumns,
+  checkManifestEntry,
+  checkRowCount,
+  datasetReader,
+  emptyReader,
+  matchDatasetFile,
+  resolveFromManifest,
+} from './datasetSchema';
+
+const schema: DatasetSchema = {
+  name: 'station_names',
+  formats: ['parquet', 'csv'],
+  schemaVersion: 1,
+  required: { station_id: 'VARCHAR', name: 'VARCHAR' },
+  optional: { valid_from: 'VARCHAR', notes: 'VARCHAR' },
+};
+
+const entry = (file: string, rows = 3, schema_version = 1): ManifestDataset => ({
+  name: 'station_names',
+  file,
+  format: file.endsWith('.csv') ? 'csv' : 'parquet',
+  schema_version,
+  rows,
+  bytes: 100,
+  sha256: '0'.repeat(64),
+});
+
+describe('datasetReader', () => {
+  it('types CSV columns from the schema and adds the missing optional ones as typed NULLs', () => {
+    const reader = datasetReader({ schema, file: 'station_names.csv', format: 'csv' }, ['station_id', 'name', 'valid_from', 'extra']);
+    expect(reader).toBe(
+      `(SELECT *, CAST(NULL AS VARCHAR) AS "notes" FROM read_csv('station_names.csv', header = true, types = {'station_id': 'VARCHAR', 'name': 'VARCHAR', 'valid_from': 'VARCHAR'}))`,
+    );
+  });
+
+  it('reads a file with every column as it is', () => {
+    expect(datasetReader({ schema, file: 'station_names.parquet', format: 'parquet' })).toBe(`read_parquet('station_names.parquet')`);
+  });
+});
+
+describe('emptyReader', () => {
+  it('selects every schema column and no rows', () => {
+    expect(emptyReader(schema, 'csv')).toBe(
+      `(SELECT CAST(NULL AS VARCHAR) AS "station_id", CAST(NULL AS VARCHAR) AS "name", CAST(NULL AS VARCHAR) AS "valid_from", CAST(NULL AS VARCHAR) AS "notes" WHERE false)`,
+    );
+  });
+});
+
+describe('checkColumns', () => {
+  it('reports only the missing required columns', () => {
+    const dataset = { schema, file: 'station_names.csv', format: 'csv' as const };
+    expect(checkColumns(dataset, ['station_id', 'name'])).toEqual([]);
+    expect(checkColumns(dataset, ['station_id', 'notes'])).toEqual(['station_names.csv is missing columns: name']);
+  });
+
+  it('names GeoJSON columns feature properties', () => {
+    const segments = DATASET_SCHEMAS.find(candidate => candidate.name === 'segments')!;
+    const [problem] = checkColumns({ schema: segments, file: 'segments.geojson', format: 'geojson' }, []);
+    expect(problem.startsWith('segments.geojson is missing feature properties: segment_id')).toBe(true);
+  });
+});
+
+describe('manifest checks', () => {
+  const dataset = { schema, file: 'station_names.csv', format: 'csv' as const };
+
+  it('reports a row count that differs from the manifest', () => {
+    expect(checkRowCount(dataset, entry('station_names.csv', 1200), 1200)).toEqual([]);
+    expect(checkRowCount(dataset, entry('station_names.csv', 1200), 1199)).toEqual([
+      'station_names.csv has 1,199 rows, but manifest.json lists 1,200',
+    ]);
+    expect(checkRowCount(dataset, undefined, 5)).toEqual([]);
+  });
+
+  it('reports an unsupported schema version', () => {
+    expect(checkManifestEntry(dataset, entry('station_names.csv'))).toEqual([]);
+    expect(checkManifestEntry(dataset, entry('station_names.csv', 3, 2))).toEqual([
+      'station_names.csv uses schema version 2; this viewer supports version 1',
+    ]);
+  });
+});
+
+describe('resolveFromManifest', () => {
+  const manifest = (files: string[]): DatasetManifest => ({ manifest_version: 1, version: 'test', datasets: files.map(file => entry(file)) });
+
+  it('prefers the format listed first in the schema', () => {
+    expect(resolveFromManifest(schema, manifest(['station_names.csv', 'station_names.parquet']))?.dataset).toEqual({
+      schema,
+      file: 'station_names.parquet',
+      format: 'parquet',
+    });
+    expect(resolveFromManifest(schema, manifest(['station_names.csv']))?.dataset.format).toBe('csv');
+  });
+
+  it('finds nothing for a dataset missing from the manifest', () => {
+    expect(resolveFromManifest(schema, manifest(['stations.csv']))).toBeNull();
+  });
+});
+
+describe('matchDatasetFile', () => {
+  it('matches a file name to its dataset and format', () => {
+    expect(matchDatasetFile('segments.geojson')).toMatchObject({ schema: { name: 'segments' }, format: 'geojson' });
+    expect(matchDatasetFile('stations.csv')).toMatchObject({ schema: { name: 'stations' }, format: 'csv' });
+  });
+
+  it('does not match unknown files or formats a dataset does not accept', () => {
+    expect(matchDatasetFile('segments.csv')).toBeNull();
+    expect(matchDatasetFile('notes.txt')).toBeNull();
+  });
+});
@@ -0,0 +1,317 @@
+import type { DatasetManifest, ManifestDataset } from './datasetCache';
+
+export type DatasetFormat = 'parquet' | 'csv' | 'geojson';
+
+export interface DatasetSchema {
+  name: string;
+  // Accepted formats in order of preference; the file is `${name}.${format}`.
+  formats: DatasetFormat[];
+  schemaVersion: number;
+  // Columns the viewer reads (feature properties for GeoJSON), with their DuckDB types. A file must
+  // have the required ones; missing optional ones are read as NULLs of their type. Extra columns
+  // are allowed.
+  required: Record<string, string>;
+  optional: Record<string, string>;
+}
+
+export interface ResolvedDataset {
+  schema: DatasetSchema;
+  file: string;
+  format: DatasetFormat;
+}
+
+export const SUPPORTED_MANIFEST_VERSION = 1;
+
+export const DATASET_SCHEMAS: DatasetSchema[] = [
+  {
+    name: 'stations',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      station_id: 'VARCHAR',
+      name_primary: 'VARCHAR',
+      lat: 'DOUBLE',
+      lon: 'DOUBLE',
+      current_status: 'VARCHAR',
+    },
+    optional: {
+      name_latin: 'VARCHAR',
+      country_code: 'VARCHAR',
+      esr_code: 'VARCHAR',
+      osm_node_id: 'VARCHAR',
+      osm_way_id: 'VARCHAR',
+      osm_relation_id: 'VARCHAR',
+      wikidata_id: 'VARCHAR',
+      wikipedia_ru: 'VARCHAR',
+      parovoz_url: 'VARCHAR',
+      railwayz_id: 'VARCHAR',
+      geometry_quality: 'VARCHAR',
+      notes: 'VARCHAR',
+      created_at: 'VARCHAR',
+      updated_at: 'VARCHAR',
+    },
+  },
+  {
+    name: 'station_names',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      station_id: 'VARCHAR',
+      name: 'VARCHAR',
+      language: 'VARCHAR',
+    },
+    optional: {
+      valid_from: 'VARCHAR',
+      valid_to: 'VARCHAR',
+      name_type: 'VARCHAR',
+      source_id: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'events',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      event_id: 'VARCHAR',
+      event_type: 'VARCHAR',
+      date: 'VARCHAR',
+    },
+    optional: {
+      date_precision: 'VARCHAR',
+      line_id: 'VARCHAR',
+      station_id: 'VARCHAR',
+      segment_id: 'VARCHAR',
+      description: 'VARCHAR',
+      source_id: 'VARCHAR',
+      source_page: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'segments',
+    formats: ['geojson'],
+    schemaVersion: 1,
+    required: {
+      segment_id: 'VARCHAR',
+      from_station_id: 'VARCHAR',
+      to_station_id: 'VARCHAR',
+    },
+    optional: {
+      geometry_source: 'VARCHAR',
+      geometry_quality: 'VARCHAR',
+      is_current: 'BOOLEAN',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'lines',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      line_id: 'VARCHAR',
+      name_primary: 'VARCHAR',
+    },
+    optional: {
+      name_latin: 'VARCHAR',
+      gauge: 'VARCHAR',
+      initial_open_year: 'INTEGER',
+      operator: 'VARCHAR',
+      country_historic: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'line_segments',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      line_id: 'VARCHAR',
+      segment_id: 'VARCHAR',
+    },
+    optional: {
+      valid_from: 'VARCHAR',
+      valid_to: 'VARCHAR',
+      source_id: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'segment_states',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      segment_state_id: 'VARCHAR',
+      segment_id: 'VARCHAR',
+    },
+    optional: {
+      valid_from: 'VARCHAR',
+      valid_to: 'VARCHAR',
+      gauge_mm: 'INTEGER',
+      track_count: 'INTEGER',
+      electrified: 'BOOLEAN',
+      electrification_system: 'VARCHAR',
+      'electrification_voltage_kV': 'DOUBLE',
+      power_supply_type: 'VARCHAR',
+      signalling_system: 'VARCHAR',
+      max_speed_kmh: 'DOUBLE',
+      ownership_type: 'VARCHAR',
+      source_id: 'VARCHAR',
+      source_detail: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'segment_metrics',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      segment_metric_id: 'VARCHAR',
+      segment_id: 'VARCHAR',
+    },
+    optional: {
+      valid_from: 'VARCHAR',
+      valid_to: 'VARCHAR',
+      length_km: 'DOUBLE',
+      length_source: 'VARCHAR',
+      length_method: 'VARCHAR',
+      passenger_time_min: 'DOUBLE',
+      express_time_min: 'DOUBLE',
+      freight_time_min: 'DOUBLE',
+      timetable_id: 'VARCHAR',
+      speed_class: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'sources',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      source_id: 'VARCHAR',
+      title: 'VARCHAR',
+    },
+    optional: {
+      author: 'VARCHAR',
+      year: 'INTEGER',
+      type: 'VARCHAR',
+      details: 'VARCHAR',
+      url: 'VARCHAR',
+      language: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+  {
+    name: 'timetables',
+    formats: ['parquet', 'csv'],
+    schemaVersion: 1,
+    required: {
+      timetable_id: 'VARCHAR',
+      title: 'VARCHAR',
+    },
+    optional: {
+      valid_from: 'VARCHAR',
+      valid_to: 'VARCHAR',
+      operator: 'VARCHAR',
+      source_id: 'VARCHAR',
+      notes: 'VARCHAR',
+    },
+  },
+];
+
+export const schemaColumns = (schema: DatasetSchema) => ({ ...schema.required, ...schema.optional });
+
+export const datasetFile = (schema: DatasetSchema, format: DatasetFormat) => `${schema.name}.${format}`;
+
+// Matches a file name such as "stations.csv" to its dataset, for files supplied by the user.
+export const matchDatasetFile = (fileName: string) => {
+  for (const schema of DATASET_SCHEMAS) {
+    const format = schema.formats.find(candidate => datasetFile(schema, candidate) === fileName);
+    if (format) return { schema, format };
+  }
+  return null;
+};
+
+// Picks the preferred format listed in the manifest, e.g. stations.parquet over stations.csv.
+export const resolveFromManifest = (schema: DatasetSchema, manifest: DatasetManifest) => {
+  for (const format of schema.formats) {
+    const entry = manifest.datasets.find(candidate => candidate.file === datasetFile(schema, format));
+    if (entry) return { dataset: { schema, file: entry.file, format }, entry };
+  }
+  return null;
+};
+
+const sqlString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const nullColumns = (columns: [string, string][]) => columns.map(([column, type]) => `CAST(NULL AS ${type}) AS "${column}"`);
+
+// Table function reading a registered file. CSV columns get the schema's explicit types instead of
+// sniffed ones. Given the columns the file has (as checked by checkColumns), the schema columns it
+// lacks are added as typed NULLs, so the tables build from files without optional columns.
+// GeoJSON properties are read into a struct with every schema column, absent ones being NULL.
+export const datasetReader = ({ schema, file, format }: ResolvedDataset, presentColumns?: string[]) => {
+  const columns = Object.entries(schemaColumns(schema));
+  if (format === 'geojson') {
+    const properties = columns.map(([column, type]) => `"${column}" ${type}`).join(', ');
+    return `read_json(${sqlString(file)}, columns = {features: ${sqlString(`STRUCT(properties STRUCT(${properties}), geometry JSON)[]`)}})`;
+  }
+
+  const present = new Set(presentColumns ?? columns.map(([column]) => column));
+  const reader =
+    format === 'parquet'
+      ? `read_parquet(${sqlString(file)})`
+      : `read_csv(${sqlString(file)}, header = true, types = {${columns
+          .filter(([column]) => present.has(column))
+          .map(([column, type]) => `${sqlString(column)}: ${sqlString(type)}`)
+          .join(', ')}})`;
+  const missing = columns.filter(([column]) => !present.has(column));
+  return missing.length === 0 ? reader : `(SELECT *, ${nullColumns(missing).join(', ')} FROM ${reader})`;
+};
+
+// A relation with the dataset's columns and no rows, standing in for a file that failed to load.
+export const emptyReader = (schema: DatasetSchema, format: DatasetFormat) => {
+  const columns = Object.entries(schemaColumns(schema));
+  if (format === 'geojson') {
+    const properties = columns.map(([column, type]) => `"${column}" ${type}`).join(', ');
+    return `(SELECT CAST([] AS STRUCT(properties STRUCT(${properties}), geometry VARCHAR)[]) AS features)`;
+  }
+  return `(SELECT ${nullColumns(columns).join(', ')} WHERE false)`;
+};
+
+// Collects every problem found while loading, so they can be reported together instead of one at a time.
+export class DatasetSchemaError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`The dataset does not match what this viewer expects:\n${problems.map(problem => `• ${problem}`).join('\n')}`);
+    this.name = 'DatasetSchemaError';
+    this.problems = problems;
+  }
+}
+
+export const checkManifestVersion = (manifest: DatasetManifest) =>
+  manifest.manifest_version === SUPPORTED_MANIFEST_VERSION
+    ? []
+    : [`manifest.json has manifest_version ${manifest.manifest_version}; this viewer reads version ${SUPPORTED_MANIFEST_VERSION}`];
+
+export const checkManifestEntry = ({ schema, file }: ResolvedDataset, entry: ManifestDataset) =>
+  entry.schema_version === schema.schemaVersion
+    ? []
+    : [`${file} uses schema version ${entry.schema_version}; this viewer supports version ${schema.schemaVersion}`];
+
+export const missingFromManifest = (schema: DatasetSchema) =>
+  `${schema.formats.map(format => datasetFile(schema, format)).join(' or ')} is not listed in manifest.json`;
+
+// Only missing required columns are problems; datasetReader fills in the optional ones.
+export const checkColumns = ({ schema, file, format }: ResolvedDataset, actualColumns: string[]) => {
+  const actual = new Set(actualColumns);
+  const missing = Object.keys(schema.required).filter(column => !actual.has(column));
+  if (missing.length === 0) return [];
+  const kind = format === 'geojson' ? 'feature properties' : 'columns';
+  return [`${file} is missing ${kind}: ${missing.join(', ')}`];
+};
+
+export const checkRowCount = ({ file }: ResolvedDataset, entry: ManifestDataset | undefined, actualRows: number) =>
+  entry && entry.rows !== actualRows
+    ? [`${file} has ${actualRows.toLocaleString('en-US')} rows, but manifest.json lists ${entry.rows.toLocaleString('en-US')}`]
+    : [];
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { adjacentDates, formatPeriodLabel, fromStepIndex, isIsoDate, periodFor, toStepIndex } from './dates';
+
+describe('periodFor', () => {
+  it('gives the inclusive bounds of the year, month or day', () => {
+    expect(periodFor('1904-02-10', 'year')).toEqual({ start: '1904-01-01', end: '1904-12-31' });
+    expect(periodFor('1904-02-10', 'month')).toEqual({ start: '1904-02-01', end: '1904-02-29' });
+    expect(periodFor('1904-02-10', 'day')).toEqual({ start: '1904-02-10', end: '1904-02-10' });
+  });
+
+  it('keeps four-digit years before 1000', () => {
+    expect(periodFor('0999-03-05', 'month')).toEqual({ start: '0999-03-01', end: '0999-03-31' });
+  });
+});
+
+describe('isIsoDate', () => {
+  it('accepts only full YYYY-MM-DD dates', () => {
+    expect(isIsoDate('1872-05-01')).toBe(true);
+    expect(isIsoDate('1872-05')).toBe(false);
+    expect(isIsoDate('1872')).toBe(false);
+  });
+});
+
+describe('step indexes', () => {
+  it('round-trip a date at each resolution', () => {
+    expect(fromStepIndex(toStepIndex('1901-03-01', 'month', 1900), 'month', 1900)).toBe('1901-03-01');
+    expect(fromStepIndex(toStepIndex('1901-03-17', 'day', 1900), 'day', 1900)).toBe('1901-03-17');
+    expect(toStepIndex('1910-06-30', 'year', 1900)).toBe(10);
+  });
+});
+
+describe('adjacentDates', () => {
+  it('steps across year and month boundaries', () => {
+    expect(adjacentDates('1900-01-01', 'year')).toEqual(['1899-01-01', '1901-01-01']);
+    expect(adjacentDates('1900-01-15', 'month')).toEqual(['1899-12-01', '1900-02-01']);
+    expect(adjacentDates('1900-03-01', 'day')).toEqual(['1900-02-28', '1900-03-02']);
+  });
+});
+
+describe('formatPeriodLabel', () => {
+  it('shows only the parts of the date the resolution uses', () => {
+    expect(formatPeriodLabel('1935-05-15', 'year')).toBe('1935');
+    expect(formatPeriodLabel('1935-05-15', 'month')).toBe('1935-05');
+    expect(formatPeriodLabel('1935-05-15', 'day')).toBe('1935-05-15');
+  });
+});
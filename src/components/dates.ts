@@ -0,0 +1,67 @@
+export type TimeResolution = 'year' | 'month' | 'day';
+
+export interface Period {
+  start: string;
+  end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toUTC = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Date.toISOString() is unusable for years before 1000 or with extended years, so format by hand.
+const formatUTC = (date: Date) =>
+  `${String(date.getUTCFullYear()).padStart(4, '0')}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+
+export const isIsoDate = (date: string) => ISO_DATE.test(date);
+
+export const yearOf = (date: string) => Number(date.slice(0, 4));
+
+// The calendar period a date falls in at the given resolution, as inclusive ISO bounds.
+export const periodFor = (date: string, resolution: TimeResolution): Period => {
+  const parsed = toUTC(date);
+  const year = parsed.getUTCFullYear();
+  const month = parsed.getUTCMonth();
+
+  if (resolution === 'year') {
+    return { start: `${String(year).padStart(4, '0')}-01-01`, end: `${String(year).padStart(4, '0')}-12-31` };
+  }
+  if (resolution === 'month') {
+    return {
+      start: formatUTC(new Date(Date.UTC(year, month, 1))),
+      end: formatUTC(new Date(Date.UTC(year, month + 1, 0))),
+    };
+  }
+  return { start: formatUTC(parsed), end: formatUTC(parsed) };
+};
+
+// Position of a date on a slider that starts at minYear and steps by the given resolution.
+export const toStepIndex = (date: string, resolution: TimeResolution, minYear: number) => {
+  const parsed = toUTC(date);
+  if (resolution === 'year') return parsed.getUTCFullYear() - minYear;
+  if (resolution === 'month') return (parsed.getUTCFullYear() - minYear) * 12 + parsed.getUTCMonth();
+  return Math.round((parsed.getTime() - Date.UTC(minYear, 0, 1)) / DAY_MS);
+};
+
+export const fromStepIndex = (index: number, resolution: TimeResolution, minYear: number) => {
+  if (resolution === 'year') return `${String(minYear + index).padStart(4, '0')}-01-01`;
+  if (resolution === 'month') return formatUTC(new Date(Date.UTC(minYear, index, 1)));
+  return formatUTC(new Date(Date.UTC(minYear, 0, 1) + index * DAY_MS));
+};
+
+// The dates one step before and after the given date at the given resolution.
+export const adjacentDates = (date: string, resolution: TimeResolution): [string, string] => {
+  const minYear = yearOf(date);
+  const index = toStepIndex(date, resolution, minYear);
+  return [fromStepIndex(index - 1, resolution, minYear), fromStepIndex(index + 1, resolution, minYear)];
+};
+
+export const formatPeriodLabel = (date: string, resolution: TimeResolution) => {
+  if (resolution === 'year') return date.slice(0, 4);
+  if (resolution === 'month') return date.slice(0, 7);
+  return date;
+};
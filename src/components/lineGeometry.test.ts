@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeLineFeatures } from './lineGeometry';
+
+const line = (coordinates: number[][], extra: object = {}) => ({
+  type: 'FeatureCollection',
+  ...extra,
+  features: [{ type: 'Feature', properties: { segment_id: 'S1' }, geometry: { type: 'LineString', coordinates } }],
+});
+
+// Moscow – Tver: both values stay under 90° in either order.
+const MOSCOW_TVER_LAT_LON = [
+  [55.776, 37.655],
+  [56.858, 35.9],
+];
+
+describe('normalizeLineFeatures', () => {
+  it('refuses to guess the order of an undeclared file whose values do not tell', () => {
+    expect(normalizeLineFeatures(line(MOSCOW_TVER_LAT_LON))).toBeNull();
+  });
+
+  it('keeps a declared [lat, lon] file as it is', () => {
+    const normalized = normalizeLineFeatures(line(MOSCOW_TVER_LAT_LON, { axis_order: 'lat,lon' }));
+    expect(normalized?.collection.features[0].geometry).toEqual({ type: 'MultiLineString', coordinates: [MOSCOW_TVER_LAT_LON] });
+  });
+
+  it('swaps a CRS84 file to [lat, lon]', () => {
+    const crs = { type: 'name', properties: { name: 'urn:ogc:def:crs:OGC:1.3:CRS84' } };
+    const normalized = normalizeLineFeatures(line(MOSCOW_TVER_LAT_LON.map(([lat, lon]) => [lon, lat]), { crs }));
+    expect(normalized?.axisOrder).toBe('lon,lat');
+    expect(normalized?.collection.features[0].geometry?.coordinates).toEqual([MOSCOW_TVER_LAT_LON]);
+  });
+
+  it('detects [lon, lat] from a longitude beyond 90°', () => {
+    const normalized = normalizeLineFeatures(line([[104.28, 52.29], [103.9, 52.5]]));
+    expect(normalized?.collection.features[0].geometry?.coordinates).toEqual([[[52.29, 104.28], [52.5, 103.9]]]);
+  });
+
+  it('keeps every part of a MultiLineString', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      axis_order: 'lon,lat',
+      features: [
+        {
+          type: 'Feature',
+          properties: { segment_id: 'S1' },
+          geometry: { type: 'MultiLineString', coordinates: [[[30.3, 59.9], [30.4, 59.7]], [[31, 60], [32, 61]]] },
+        },
+      ],
+    };
+    expect(normalizeLineFeatures(collection)?.collection.features[0].geometry?.coordinates).toEqual([
+      [[59.9, 30.3], [59.7, 30.4]],
+      [[60, 31], [61, 32]],
+    ]);
+  });
+
+  it('accepts a file without any lines', () => {
+    const collection = { type: 'FeatureCollection', features: [{ type: 'Feature', properties: {}, geometry: null }] };
+    expect(normalizeLineFeatures(collection)?.collection.features[0].geometry).toBeNull();
+  });
+});
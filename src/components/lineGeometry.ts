@@ -0,0 +1,90 @@
+// Segment geometries arrive as GeoJSON LineString or MultiLineString features. In the app every
+// geometry is a list of lines of [lat, lon] points, Leaflet's order; a LineString is a single line.
+export type LineParts = [number, number][][];
+
+// Order of the two values in each position of a file. GeoJSON requires 'lon,lat'; the files written
+// for this viewer before that was supported use 'lat,lon' and declare it.
+export type AxisOrder = 'lat,lon' | 'lon,lat';
+
+const toPoint = (position: any): [number, number] => {
+  if (Array.isArray(position)) return [Number(position[0]), Number(position[1])];
+  if (position && typeof position === 'object') {
+    if ('f0' in position && 'f1' in position) return [Number(position.f0), Number(position.f1)];
+    if ('lat' in position && 'lon' in position) return [Number(position.lat), Number(position.lon)];
+  }
+  return [NaN, NaN];
+};
+
+export const linePoints = (positions: any): [number, number][] =>
+  Array.isArray(positions)
+    ? positions.map(toPoint).filter(([first, second]) => Number.isFinite(first) && Number.isFinite(second))
+    : [];
+
+// The lines of a GeoJSON geometry, in the file's axis order. Other geometry types have no lines.
+export const geometryLines = (geometry: any): LineParts => {
+  switch (geometry?.type) {
+    case 'LineString':
+      return [linePoints(geometry.coordinates)].filter(line => line.length > 0);
+    case 'MultiLineString':
+      return Array.isArray(geometry.coordinates)
+        ? geometry.coordinates.map(linePoints).filter((line: [number, number][]) => line.length > 0)
+        : [];
+    case 'GeometryCollection':
+      return Array.isArray(geometry.geometries) ? geometry.geometries.flatMap(geometryLines) : [];
+    default:
+      return [];
+  }
+};
+
+// An "axis_order" member on the FeatureCollection, or a CRS84 "crs" as QGIS writes it.
+const declaredAxisOrder = (collection: any): AxisOrder | null => {
+  const declared = String(collection?.axis_order ?? '').replace(/\s/g, '').toLowerCase();
+  if (declared === 'lat,lon' || declared === 'lon,lat') return declared;
+  const crs = collection?.crs?.properties?.name;
+  return typeof crs === 'string' && /CRS84$/i.test(crs) ? 'lon,lat' : null;
+};
+
+// Only a longitude can lie outside ±90°, so one such value settles the order of the whole file.
+// Otherwise (e.g. anywhere in European Russia) the values do not tell, and null is returned.
+const detectAxisOrder = (lines: LineParts): AxisOrder | null => {
+  for (const line of lines) {
+    for (const [first, second] of line) {
+      if (Math.abs(first) > 90) return 'lon,lat';
+      if (Math.abs(second) > 90) return 'lat,lon';
+    }
+  }
+  return null;
+};
+
+// Rewrites a FeatureCollection of line features so that every geometry is a MultiLineString in
+// [lat, lon] order (null for features without lines), whatever the file used. The axis order is the
+// declared one, else the detected one; when neither settles it there is no guess and null is returned,
+// since reading [lat, lon] as [lon, lat] would still draw plausible lines in the wrong place.
+export const normalizeLineFeatures = (collection: any) => {
+  const features: any[] = Array.isArray(collection?.features) ? collection.features : [];
+  const lines = features.map(feature => geometryLines(feature?.geometry));
+  const axisOrder = declaredAxisOrder(collection) ?? detectAxisOrder(lines.flat());
+  if (!axisOrder && lines.some(parts => parts.length > 0)) return null;
+  const swap = axisOrder === 'lon,lat';
+
+  return {
+    axisOrder,
+    collection: {
+      type: 'FeatureCollection',
+      features: features.map((feature, index) => ({
+        ...feature,
+        geometry:
+          lines[index].length > 0
+            ? {
+                type: 'MultiLineString',
+                coordinates: swap ? lines[index].map(line => line.map(([lon, lat]) => [lat, lon])) : lines[index],
+              }
+            : null,
+      })),
+    },
+  };
+};
+
+// Reported instead of guessing when normalizeLineFeatures cannot tell the axis order.
+export const undecidedAxisOrder = (file: string) =>
+  `${file} does not declare its coordinate order and its values do not show it; add "axis_order": "lon,lat" (the GeoJSON order) or "lat,lon" to the FeatureCollection`;
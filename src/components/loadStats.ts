@@ -0,0 +1,20 @@
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} kB`;
+
+export const formatDuration = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`);
+
+// Bytes received against the expected total. Files of unknown size count towards the bytes but
+// not the percentage.
+export const downloadTotals = (files: { receivedBytes: number; totalBytes?: number }[]) => {
+  let receivedBytes = 0;
+  let sizedReceived = 0;
+  let totalBytes = 0;
+  files.forEach(file => {
+    receivedBytes += file.receivedBytes;
+    if (file.totalBytes != null) {
+      sizedReceived += Math.min(file.receivedBytes, file.totalBytes);
+      totalBytes += file.totalBytes;
+    }
+  });
+  return { receivedBytes, totalBytes, percent: totalBytes > 0 ? (100 * sizedReceived) / totalBytes : 0 };
+};
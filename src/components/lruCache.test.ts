@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createLruCache } from './lruCache';
+
+describe('createLruCache', () => {
+  it('evicts the least recently set entry once over capacity', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('1900', 1);
+    cache.set('1901', 2);
+    cache.set('1902', 3);
+    expect(cache.get('1900')).toBeUndefined();
+    expect(cache.get('1901')).toBe(2);
+    expect(cache.get('1902')).toBe(3);
+  });
+
+  it('counts reading an entry as using it', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('1900', 1);
+    cache.set('1901', 2);
+    cache.get('1900');
+    cache.set('1902', 3);
+    expect(cache.get('1900')).toBe(1);
+    expect(cache.get('1901')).toBeUndefined();
+  });
+
+  it('replaces an entry set again without evicting another', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('1900', 1);
+    cache.set('1901', 2);
+    cache.set('1900', 10);
+    expect(cache.get('1900')).toBe(10);
+    expect(cache.get('1901')).toBe(2);
+  });
+
+  it('removes one entry or all of them', () => {
+    const cache = createLruCache<string, number>(3);
+    cache.set('1900', 1);
+    cache.set('1901', 2);
+    expect(cache.remove('1900')).toBe(true);
+    expect(cache.get('1900')).toBeUndefined();
+    cache.clear();
+    expect(cache.get('1901')).toBeUndefined();
+  });
+});
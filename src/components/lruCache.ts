@@ -0,0 +1,27 @@
+// Least-recently-used cache on top of Map's insertion order: reading an entry moves it to the end,
+// and the entries at the front are evicted once the capacity is exceeded.
+export const createLruCache = <K, V>(capacity: number) => {
+  const entries = new Map<K, V>();
+
+  const get = (key: K) => {
+    if (!entries.has(key)) return undefined;
+    const value = entries.get(key)!;
+    entries.delete(key);
+    entries.set(key, value);
+    return value;
+  };
+
+  const set = (key: K, value: V) => {
+    entries.delete(key);
+    entries.set(key, value);
+    while (entries.size > capacity) {
+      entries.delete(entries.keys().next().value as K);
+    }
+  };
+
+  const remove = (key: K) => entries.delete(key);
+
+  const clear = () => entries.clear();
+
+  return { get, set, remove, clear };
+};
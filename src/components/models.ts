@@ -0,0 +1,404 @@
+// Entity types read from the dataset tables, and the mappers turning DuckDB result rows into them.
+// Every query goes through these mappers, so a row looks the same wherever it was read.
+import { Source } from './citations';
+import { LineParts, geometryLines, linePoints } from './lineGeometry';
+
+export interface Station {
+  station_id: string;
+  name_primary: string;
+  name_latin?: string;
+  lat: number;
+  lon: number;
+  country_code?: string;
+  esr_code?: string;
+  osm_node_id?: string;
+  osm_way_id?: string;
+  osm_relation_id?: string;
+  wikidata_id?: string;
+  wikipedia_ru?: string;
+  parovoz_url?: string;
+  railwayz_id?: string;
+  current_status: string;
+  geometry_quality?: string;
+  notes?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface StationName {
+  station_id: string;
+  name: string;
+  language: string;
+  valid_from?: string;
+  valid_to?: string;
+  name_type?: string;
+  source_id?: string;
+  notes?: string;
+}
+
+export interface Event {
+  event_id: string;
+  event_type: string;
+  date: string;
+  date_precision?: string;
+  line_id?: string;
+  station_id?: string;
+  segment_id?: string;
+  description?: string;
+  source_id?: string;
+  source_page?: string;
+  notes?: string;
+}
+
+export interface Segment {
+  segment_id: string;
+  from_station_id: string;
+  to_station_id: string;
+  // One line of [lat, lon] points per part; a MultiLineString segment has several.
+  geometry: LineParts;
+  geometry_source?: string;
+  geometry_quality?: string;
+  is_current?: boolean;
+  notes?: string;
+}
+
+export interface Line {
+  line_id: string;
+  name_primary: string;
+  name_latin?: string;
+  gauge?: string;
+  operator?: string;
+  initial_open_year?: number;
+  country_historic?: string;
+  notes?: string;
+}
+
+export interface LineSegment {
+  line_id: string;
+  segment_id: string;
+  valid_from?: string;
+  valid_to?: string;
+  source_id?: string;
+  notes?: string;
+}
+
+export interface SegmentAttributes {
+  gauge_mm?: number;
+  track_count?: number;
+  electrified?: boolean;
+  electrification_system?: string;
+  electrification_voltage_kv?: number;
+  power_supply_type?: string;
+  max_speed_kmh?: number;
+  signalling_system?: string;
+  ownership_type?: string;
+}
+
+export interface SegmentState extends SegmentAttributes {
+  segment_state_id: string;
+  segment_id: string;
+  valid_from?: string;
+  valid_to?: string;
+  source_id?: string;
+  source_detail?: string;
+  notes?: string;
+}
+
+export interface SegmentMetrics {
+  length_km?: number;
+  length_method?: string;
+  passenger_time_min?: number;
+  express_time_min?: number;
+  freight_time_min?: number;
+  speed_class?: string;
+  timetable_id?: string;
+}
+
+export interface SegmentMetric extends SegmentMetrics {
+  segment_metric_id: string;
+  segment_id: string;
+  valid_from?: string;
+  valid_to?: string;
+  length_source?: string;
+  notes?: string;
+}
+
+export interface Timetable {
+  timetable_id: string;
+  title: string;
+  valid_from?: string;
+  valid_to?: string;
+  operator?: string;
+  source_id?: string;
+  notes?: string;
+}
+
+export interface StationNameEntry {
+  name: string;
+  language?: string;
+  valid_from?: string;
+  valid_to?: string;
+  name_type?: string;
+}
+
+// State of a station or segment in the selected period, which decides how it is drawn.
+export type EntityState = 'planned' | 'undated' | 'existing' | 'new' | 'reopened' | 'electrified' | 'gauge_change' | 'closed';
+
+export interface StationWithState extends Station {
+  state: EntityState;
+  // Name in use in the selected year; dated names win over undated ones, which act as fallbacks.
+  name_for_year: string;
+  alternative_names: { [key: string]: string };
+  name_history: StationNameEntry[];
+  // Distinct gauges (mm) of the open segments meeting at the station in the selected year.
+  gauges: number[];
+  break_of_gauge: boolean;
+}
+
+export interface SegmentWithState extends Segment, SegmentAttributes, SegmentMetrics {
+  state: EntityState;
+  line_id?: string;
+  line_name?: string;
+  line_operator?: string;
+  line_gauge?: string;
+  // Gauge (mm) before a regauging that took effect in the selected year.
+  previous_gauge_mm?: number;
+  // Start of the latest electrification on or before the end of the selected period.
+  electrified_since?: string;
+}
+
+const buildAltNameMap = (names: any): { [key: string]: string } => {
+  if (!names || !Array.isArray(names)) return {};
+
+  const altNames: Record<string, string> = {};
+  const langCounts: Record<string, number> = {};
+
+  names.forEach(entry => {
+    const name = (entry as any)?.name;
+    const language = (entry as any)?.language;
+    if (!name || !language) return;
+
+    langCounts[language] = (langCounts[language] ?? 0) + 1;
+    const suffix = langCounts[language] > 1 ? `_${langCounts[language] - 1}` : '';
+    altNames[`name:${language}${suffix}`] = name;
+  });
+
+  return altNames;
+};
+
+const mapSegmentAttributes = (row: any): SegmentAttributes => ({
+  gauge_mm: row.gauge_mm != null ? Number(row.gauge_mm) : undefined,
+  track_count: row.track_count != null ? Number(row.track_count) : undefined,
+  electrified: row.electrified != null ? Boolean(row.electrified) : undefined,
+  electrification_system: row.electrification_system || undefined,
+  electrification_voltage_kv: row.electrification_voltage_kv != null ? Number(row.electrification_voltage_kv) : undefined,
+  power_supply_type: row.power_supply_type || undefined,
+  max_speed_kmh: row.max_speed_kmh != null ? Number(row.max_speed_kmh) : undefined,
+  signalling_system: row.signalling_system || undefined,
+  ownership_type: row.ownership_type || undefined,
+});
+
+const mapSegmentMetrics = (row: any): SegmentMetrics => ({
+  length_km: row.length_km != null ? Number(row.length_km) : undefined,
+  length_method: row.length_method || undefined,
+  passenger_time_min: row.passenger_time_min != null ? Number(row.passenger_time_min) : undefined,
+  express_time_min: row.express_time_min != null ? Number(row.express_time_min) : undefined,
+  freight_time_min: row.freight_time_min != null ? Number(row.freight_time_min) : undefined,
+  speed_class: row.speed_class || undefined,
+  timetable_id: row.timetable_id || undefined,
+});
+
+// The segments table stores MultiLineStrings already in [lat, lon] order (see normalizeLineFeatures);
+// bare coordinate arrays are taken as one line, or as several when nested one level deeper.
+const normalizeGeometry = (raw: any): LineParts => {
+  if (!raw) return [];
+
+  // Accept JSON-stringified geometry arrays or Feature-like payloads.
+  let data: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      // Try to sanitize simple GeoJSON-like strings that use single quotes or unquoted geometry types.
+      try {
+        const sanitized = raw
+          .replace(/'/g, '"')
+          .replace(/\b(LineString|MultiLineString|Polygon|MultiPolygon|Point|MultiPoint|GeometryCollection)\b/g, '"$1"');
+        data = JSON.parse(sanitized);
+      } catch {
+        return [];
+      }
+    }
+  }
+
+  // Allow GeoJSON Feature/FeatureCollection/Geometry objects, keeping the lines of every feature.
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    if (data.type === 'Feature') return geometryLines(data.geometry);
+    if (data.type === 'FeatureCollection' && Array.isArray(data.features)) {
+      return data.features.flatMap((feature: any) => geometryLines(feature?.geometry));
+    }
+    return geometryLines(data);
+  }
+
+  if (!Array.isArray(data) || data.length === 0) return [];
+  const nested = Array.isArray(data[0]) && (Array.isArray(data[0][0]) || (data[0][0] && typeof data[0][0] === 'object'));
+  return (nested ? data.map(linePoints) : [linePoints(data)]).filter((line: [number, number][]) => line.length > 0);
+};
+
+export const mapStation = (row: any): Station => ({
+  station_id: String(row.station_id),
+  name_primary: row.name_primary || String(row.station_id),
+  name_latin: row.name_latin || undefined,
+  lat: Number(row.lat),
+  lon: Number(row.lon),
+  country_code: row.country_code || undefined,
+  esr_code: row.esr_code || undefined,
+  osm_node_id: row.osm_node_id || undefined,
+  osm_way_id: row.osm_way_id || undefined,
+  osm_relation_id: row.osm_relation_id || undefined,
+  wikidata_id: row.wikidata_id || undefined,
+  wikipedia_ru: row.wikipedia_ru || undefined,
+  parovoz_url: row.parovoz_url || undefined,
+  railwayz_id: row.railwayz_id || undefined,
+  current_status: row.current_status || 'open',
+  geometry_quality: row.geometry_quality || undefined,
+  notes: row.notes || undefined,
+  created_at: row.created_at || undefined,
+  updated_at: row.updated_at || undefined,
+});
+
+export const mapSegment = (row: any): Segment => ({
+  segment_id: String(row.segment_id),
+  from_station_id: String(row.from_station_id),
+  to_station_id: String(row.to_station_id),
+  geometry: normalizeGeometry(row.geometry_json ?? row.geometry),
+  geometry_source: row.geometry_source || undefined,
+  geometry_quality: row.geometry_quality || undefined,
+  is_current: row.is_current || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapStationName = (row: any): StationName => ({
+  station_id: String(row.station_id),
+  name: row.name,
+  language: row.language,
+  valid_from: row.valid_from || undefined,
+  valid_to: row.valid_to || undefined,
+  name_type: row.name_type || undefined,
+  source_id: row.source_id || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapEvent = (row: any): Event => ({
+  event_id: String(row.event_id),
+  event_type: row.event_type,
+  date: row.date || '',
+  date_precision: row.date_precision || undefined,
+  line_id: row.line_id != null ? String(row.line_id) : undefined,
+  station_id: row.station_id || undefined,
+  segment_id: row.segment_id || undefined,
+  description: row.description || undefined,
+  source_id: row.source_id || undefined,
+  source_page: row.source_page != null ? String(row.source_page) : undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapLine = (row: any): Line => ({
+  line_id: String(row.line_id),
+  name_primary: row.name_primary || String(row.line_id),
+  name_latin: row.name_latin || undefined,
+  gauge: row.gauge || undefined,
+  operator: row.operator || undefined,
+  initial_open_year: row.initial_open_year != null ? Number(row.initial_open_year) : undefined,
+  country_historic: row.country_historic || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapLineSegment = (row: any): LineSegment => ({
+  line_id: String(row.line_id),
+  segment_id: String(row.segment_id),
+  valid_from: row.valid_from || undefined,
+  valid_to: row.valid_to || undefined,
+  source_id: row.source_id || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapSegmentState = (row: any): SegmentState => ({
+  segment_state_id: String(row.segment_state_id),
+  segment_id: String(row.segment_id),
+  valid_from: row.valid_from || undefined,
+  valid_to: row.valid_to || undefined,
+  ...mapSegmentAttributes(row),
+  source_id: row.source_id || undefined,
+  source_detail: row.source_detail || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapSegmentMetric = (row: any): SegmentMetric => ({
+  segment_metric_id: String(row.segment_metric_id),
+  segment_id: String(row.segment_id),
+  valid_from: row.valid_from || undefined,
+  valid_to: row.valid_to || undefined,
+  ...mapSegmentMetrics(row),
+  length_source: row.length_source || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapSource = (row: any): Source => ({
+  source_id: String(row.source_id),
+  title: row.title || undefined,
+  author: row.author || undefined,
+  year: row.year != null ? Number(row.year) : undefined,
+  type: row.type || undefined,
+  details: row.details || undefined,
+  url: row.url || undefined,
+  language: row.language || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapTimetable = (row: any): Timetable => ({
+  timetable_id: String(row.timetable_id),
+  title: row.title || String(row.timetable_id),
+  valid_from: row.valid_from || undefined,
+  valid_to: row.valid_to || undefined,
+  operator: row.operator || undefined,
+  source_id: row.source_id || undefined,
+  notes: row.notes || undefined,
+});
+
+export const mapStationWithState = (row: any): StationWithState => {
+  const nameHistory = Array.from(row.name_history ?? [], (entry: any) => ({
+    name: String(entry.name),
+    language: entry.language || undefined,
+    valid_from: entry.valid_from || undefined,
+    valid_to: entry.valid_to || undefined,
+    name_type: entry.name_type || undefined,
+    in_effect: Boolean(entry.in_effect),
+  }));
+  const nameForYear = row.name_for_year || row.name_primary || String(row.station_id);
+
+  return {
+    ...mapStation(row),
+    state: row.state_label as StationWithState['state'],
+    name_for_year: nameForYear,
+    alternative_names: buildAltNameMap(
+      nameHistory.filter(entry => entry.in_effect && entry.name !== nameForYear)
+    ),
+    name_history: nameHistory.map(({ in_effect, ...entry }) => entry),
+    gauges: Array.from(row.gauges ?? [], Number),
+    break_of_gauge: Boolean(row.break_of_gauge),
+  };
+};
+
+export const mapSegmentWithState = (row: any): SegmentWithState => ({
+  ...mapSegment(row),
+  state: row.state_label as SegmentWithState['state'],
+  line_id: row.line_id || undefined,
+  line_name: row.line_name || undefined,
+  line_operator: row.line_operator || undefined,
+  line_gauge: row.line_gauge || undefined,
+  ...mapSegmentAttributes(row),
+  previous_gauge_mm: row.previous_gauge_mm != null ? Number(row.previous_gauge_mm) : undefined,
+  electrified_since: row.electrified_since || undefined,
+  ...mapSegmentMetrics(row),
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Segment, Station } from './models';
+import { packSegments, packStations, segmentBox, transferablesOf, unpackSegments, unpackStations } from './packedRows';
+
+const segment = (segment_id: string, geometry: Segment['geometry']): Segment => ({
+  segment_id,
+  from_station_id: 'A',
+  to_station_id: 'B',
+  geometry,
+});
+
+describe('packStations', () => {
+  it('round-trips stations and leaves unset fields out of the records', () => {
+    const stations: Station[] = [
+      { station_id: 'S1', name_primary: 'Tver', lat: 56.858, lon: 35.9, current_status: 'open', notes: undefined },
+    ];
+    const packed = packStations(stations);
+    expect('notes' in packed.records[0]).toBe(false);
+    expect(unpackStations(packed)).toEqual([{ station_id: 'S1', name_primary: 'Tver', lat: 56.858, lon: 35.9, current_status: 'open' }]);
+  });
+});
+
+describe('packSegments', () => {
+  const segments = [
+    segment('G1', [
+      [
+        [55.776, 37.655],
+        [56.858, 35.9],
+      ],
+      [
+        [56.858, 35.9],
+        [57.0, 35.0],
+      ],
+    ]),
+    segment('G2', []),
+  ];
+
+  it('keeps each segment made of its separate lines', () => {
+    const unpacked = unpackSegments(packSegments(segments));
+    expect(unpacked.map(item => item.geometry)).toEqual(segments.map(item => item.geometry));
+  });
+
+  it('gives each segment its bounding box without expanding the geometry', () => {
+    const [g1, g2] = unpackSegments(packSegments(segments));
+    expect(segmentBox(g1)).toEqual({ south: 55.776, west: 35.0, north: 57.0, east: 37.655 });
+    expect(segmentBox(g2)).toBeNull();
+  });
+
+  it('expands a geometry once and returns the same arrays afterwards', () => {
+    const [g1] = unpackSegments(packSegments(segments));
+    expect(g1.geometry).toBe(g1.geometry);
+  });
+
+  it('lists every typed array buffer for transfer', () => {
+    const packed = packSegments(segments);
+    expect(transferablesOf(packed)).toEqual([
+      packed.coordinates.buffer,
+      packed.lineOffsets.buffer,
+      packed.offsets.buffer,
+      packed.boxes.buffer,
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+// Mapped rows in the form the row worker sends them back: coordinates in typed arrays whose buffers
+// are transferred rather than copied, and records without coordinates or unset fields.
+import { LineParts } from './lineGeometry';
+import { Segment, SegmentWithState, Station, StationWithState } from './models';
+import { BoundingBox, lineBox } from './spatialIndex';
+
+// The row mappings the worker runs, by the type they produce.
+export interface RowKinds {
+  stations: Station;
+  stationsWithState: StationWithState;
+  segments: Segment;
+  segmentsWithState: SegmentWithState;
+}
+
+export type RowKind = keyof RowKinds;
+
+export interface PackedStations {
+  records: Omit<Station, 'lat' | 'lon'>[];
+  // lat, lon of each record in turn.
+  coordinates: Float64Array;
+}
+
+export interface PackedSegments {
+  records: Omit<Segment, 'geometry'>[];
+  // lat, lon pairs of every line one after another: line j holds pairs lineOffsets[j] to lineOffsets[j + 1],
+  // and segment i is made of lines offsets[i] to offsets[i + 1].
+  coordinates: Float64Array;
+  lineOffsets: Uint32Array;
+  offsets: Uint32Array;
+  // south, west, north, east of each segment in turn; NaN for a segment without points.
+  boxes: Float64Array;
+}
+
+export type PackedRows = PackedStations | PackedSegments;
+
+// Structured cloning copies every own property, so undefined fields are left out of the records.
+const compact = <T extends object>(record: T) => {
+  const result: Partial<T> = {};
+  (Object.keys(record) as (keyof T)[]).forEach(key => {
+    if (record[key] !== undefined) result[key] = record[key];
+  });
+  return result as T;
+};
+
+export const packStations = (stations: Station[]): PackedStations => {
+  const coordinates = new Float64Array(stations.length * 2);
+  const records = stations.map(({ lat, lon, ...record }, index) => {
+    coordinates[index * 2] = lat;
+    coordinates[index * 2 + 1] = lon;
+    return compact(record);
+  });
+  return { records, coordinates };
+};
+
+export const unpackStations = <T extends Station>({ records, coordinates }: PackedStations): T[] =>
+  records.map((record, index) => ({ ...record, lat: coordinates[index * 2], lon: coordinates[index * 2 + 1] }) as T);
+
+export const packSegments = (segments: Segment[]): PackedSegments => {
+  const offsets = new Uint32Array(segments.length + 1);
+  segments.forEach(({ geometry }, index) => {
+    offsets[index + 1] = offsets[index] + geometry.length;
+  });
+  const lineOffsets = new Uint32Array(offsets[segments.length] + 1);
+  let line = 0;
+  segments.forEach(({ geometry }) =>
+    geometry.forEach(points => {
+      lineOffsets[line + 1] = lineOffsets[line] + points.length;
+      line++;
+    }),
+  );
+  const coordinates = new Float64Array(lineOffsets[line] * 2);
+  const boxes = new Float64Array(segments.length * 4);
+  let point = 0;
+  const records = segments.map(({ geometry, ...record }, index) => {
+    const box = lineBox(geometry.flat());
+    boxes.set(box ? [box.south, box.west, box.north, box.east] : [NaN, NaN, NaN, NaN], index * 4);
+    geometry.forEach(points =>
+      points.forEach(([lat, lon]) => {
+        coordinates[point * 2] = lat;
+        coordinates[point * 2 + 1] = lon;
+        point++;
+      }),
+    );
+    return compact(record);
+  });
+  return { records, coordinates, lineOffsets, offsets, boxes };
+};
+
+const unpackGeometry = ({ coordinates, lineOffsets, offsets }: PackedSegments, index: number) => {
+  const geometry: LineParts = [];
+  for (let line = offsets[index]; line < offsets[index + 1]; line++) {
+    const points: [number, number][] = [];
+    for (let point = lineOffsets[line]; point < lineOffsets[line + 1]; point++) {
+      points.push([coordinates[point * 2], coordinates[point * 2 + 1]]);
+    }
+    geometry.push(points);
+  }
+  return geometry;
+};
+
+// Bounding boxes of unpacked segments, read from the packed boxes so indexing a period's segments
+// does not expand their geometries.
+const segmentBoxes = new WeakMap<Segment, BoundingBox | null>();
+
+// Segments whose geometry is only turned into nested arrays when first read, which in practice means
+// when the segment is drawn; until then it stays in the transferred coordinates.
+export const unpackSegments = <T extends Segment>(packed: PackedSegments): T[] =>
+  packed.records.map((record, index) => {
+    let geometry: LineParts | undefined;
+    const segment = Object.defineProperty({ ...record }, 'geometry', {
+      enumerable: true,
+      get: () => (geometry ??= unpackGeometry(packed, index)),
+    }) as T;
+    const [south, west, north, east] = packed.boxes.subarray(index * 4, index * 4 + 4);
+    segmentBoxes.set(segment, Number.isNaN(south) ? null : { south, west, north, east });
+    return segment;
+  });
+
+export const segmentBox = (segment: Segment) =>
+  segmentBoxes.has(segment) ? segmentBoxes.get(segment)! : lineBox(segment.geometry.flat());
+
+export const transferablesOf = (packed: PackedRows) =>
+  'offsets' in packed
+    ? [packed.coordinates.buffer, packed.lineOffsets.buffer, packed.offsets.buffer, packed.boxes.buffer]
+    : [packed.coordinates.buffer];
@@ -0,0 +1,149 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import * as blocking from '@duckdb/duckdb-wasm/blocking';
+import { tableFromIPC } from 'apache-arrow';
+import { createRequire } from 'module';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DATASET_SCHEMAS, emptyReader } from './datasetSchema';
+import { periodFor } from './dates';
+import { mapSegmentWithState, mapStationWithState } from './models';
+import { RowKind } from './packedRows';
+import { RowDecoder } from './rowDecoder';
+import { QueryRunner, createDerivedTables, createQueryRunner, segmentsForPeriod, stationsForPeriod } from './queries';
+
+const require = createRequire(import.meta.url);
+
+const sqlValue = (value: unknown) =>
+  value == null ? 'NULL' : typeof value === 'number' ? String(value) : `'${String(value).replace(/'/g, "''")}'`;
+
+const insert = (table: string, rows: Record<string, unknown>[]) => {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return `INSERT INTO ${table} BY NAME SELECT * FROM (VALUES ${rows
+    .map(row => `(${columns.map(column => sqlValue(row[column])).join(', ')})`)
+    .join(', ')}) AS v(${columns.join(', ')});`;
+};
+
+// The tables the app builds, empty as when their file failed to load, with a small network:
+// Tsaritsyn – Sarepta opened in 1872, regauged in 1900 (partial dates), electrified in 1930.
+const DATASET_SQL = [
+  ...DATASET_SCHEMAS.filter(schema => schema.name !== 'segments').map(
+    schema => `CREATE TABLE ${schema.name} AS SELECT * FROM ${emptyReader(schema, 'csv')};`,
+  ),
+  `CREATE TABLE segments (
+    segment_id VARCHAR, from_station_id VARCHAR, to_station_id VARCHAR, geometry VARCHAR,
+    geometry_source VARCHAR, geometry_quality VARCHAR, is_current BOOLEAN, notes VARCHAR
+  );`,
+  insert('stations', [
+    { station_id: 'TSA', name_primary: 'Volgograd', lat: 48.708, lon: 44.514, current_status: 'open' },
+    { station_id: 'SAR', name_primary: 'Sarepta', lat: 48.516, lon: 44.503, current_status: 'open' },
+  ]),
+  insert('station_names', [
+    { station_id: 'TSA', name: 'Tsaritsyn', language: 'ru', valid_to: '1925-04', name_type: 'official' },
+    { station_id: 'TSA', name: 'Stalingrad', language: 'ru', valid_from: '1925-04', valid_to: '1961-11', name_type: 'official' },
+    { station_id: 'TSA', name: 'Volgograd', language: 'ru', valid_from: '1961-11', name_type: 'official' },
+  ]),
+  insert('segments', [
+    {
+      segment_id: 'G1',
+      from_station_id: 'TSA',
+      to_station_id: 'SAR',
+      geometry: JSON.stringify({ type: 'MultiLineString', coordinates: [[[48.708, 44.514], [48.516, 44.503]]] }),
+    },
+  ]),
+  insert('lines', [{ line_id: 'L1', name_primary: 'Volga–Don', gauge: '1524' }]),
+  insert('line_segments', [{ line_id: 'L1', segment_id: 'G1', valid_from: '1872' }]),
+  insert('segment_states', [
+    { segment_state_id: 'GS1', segment_id: 'G1', valid_from: '1872', valid_to: '1899', gauge_mm: 1067 },
+    { segment_state_id: 'GS2', segment_id: 'G1', valid_from: '1900-06', gauge_mm: 1524 },
+  ]),
+  insert('segment_metrics', [{ segment_metric_id: 'GM1', segment_id: 'G1', valid_from: '1872', length_km: 22.5 }]),
+  insert('events', [
+    { event_id: 'E1', event_type: 'station_open', date: '1872', date_precision: 'year', station_id: 'TSA' },
+    { event_id: 'E2', event_type: 'station_open', date: '1872', date_precision: 'year', station_id: 'SAR' },
+    { event_id: 'E3', event_type: 'segment_open', date: '1872-05-01', date_precision: 'day', segment_id: 'G1' },
+    { event_id: 'E4', event_type: 'electrification', date: '1930-07', date_precision: 'month', segment_id: 'G1' },
+  ]),
+];
+
+// Maps the rows in place of the row worker, which needs a browser.
+const rowDecoder = {
+  decode: async (kind: RowKind, ipc: Uint8Array) => {
+    const rows = tableFromIPC(ipc).toArray();
+    return kind === 'stationsWithState' ? rows.map(mapStationWithState) : rows.map(mapSegmentWithState);
+  },
+  terminate: () => undefined,
+} as unknown as RowDecoder;
+
+let queries: QueryRunner;
+
+beforeAll(async () => {
+  const bundles = {
+    mvp: {
+      mainModule: require.resolve('@duckdb/duckdb-wasm/dist/duckdb-mvp.wasm'),
+      mainWorker: require.resolve('@duckdb/duckdb-wasm/dist/duckdb-node-mvp.worker.cjs'),
+    },
+    eh: {
+      mainModule: require.resolve('@duckdb/duckdb-wasm/dist/duckdb-eh.wasm'),
+      mainWorker: require.resolve('@duckdb/duckdb-wasm/dist/duckdb-node-eh.worker.cjs'),
+    },
+  };
+  const db = await blocking.createDuckDB(bundles, new blocking.VoidLogger(), blocking.NODE_RUNTIME);
+  await db.instantiate();
+  const connection = db.connect();
+  // The app's connection is asynchronous; the queries only rely on query and useUnsafe returning promises.
+  const conn = {
+    query: async (sql: string) => connection.query(sql),
+    useUnsafe: async (callback: (bindings: any, id: number) => unknown) => connection.useUnsafe(callback),
+  } as unknown as duckdb.AsyncDuckDBConnection;
+
+  for (const sql of DATASET_SQL) await conn.query(sql);
+  await createDerivedTables(conn);
+  queries = createQueryRunner(conn, rowDecoder);
+});
+
+const stationsIn = (date: string) => queries.run(stationsForPeriod, periodFor(date, 'year'));
+const segmentsIn = (date: string) => queries.run(segmentsForPeriod, periodFor(date, 'year'));
+
+describe('period queries', () => {
+  it('returns the network as planned before it opened', async () => {
+    expect((await stationsIn('1850-01-01')).map(station => station.state)).toEqual(['planned', 'planned']);
+    expect((await segmentsIn('1850-01-01')).map(segment => segment.state)).toEqual(['planned']);
+  });
+
+  it('marks stations and segments new in their opening year', async () => {
+    const stations = await stationsIn('1872-01-01');
+    expect(stations.map(station => [station.station_id, station.state]).sort()).toEqual([
+      ['SAR', 'new'],
+      ['TSA', 'new'],
+    ]);
+    const [segment] = await segmentsIn('1872-01-01');
+    expect(segment).toMatchObject({ segment_id: 'G1', state: 'new', gauge_mm: 1067, line_id: 'L1', length_km: 22.5 });
+    expect(segment.geometry).toEqual([
+      [
+        [48.708, 44.514],
+        [48.516, 44.503],
+      ],
+    ]);
+  });
+
+  it('reads year and month validity dates as the whole year or month', async () => {
+    const [segment] = await segmentsIn('1900-01-01');
+    expect(segment).toMatchObject({ state: 'gauge_change', gauge_mm: 1524, previous_gauge_mm: 1067 });
+
+    const stations = await stationsIn('1900-01-01');
+    expect(stations.find(station => station.station_id === 'TSA')?.gauges).toEqual([1524]);
+  });
+
+  it('names a station by the latest name in effect in the year of a renaming', async () => {
+    const nameIn = async (date: string) => (await stationsIn(date)).find(station => station.station_id === 'TSA')?.name_for_year;
+    expect(await nameIn('1924-01-01')).toBe('Tsaritsyn');
+    expect(await nameIn('1925-01-01')).toBe('Stalingrad');
+    expect(await nameIn('1961-01-01')).toBe('Volgograd');
+  });
+
+  it('marks a segment electrified in the year of its electrification', async () => {
+    const [segment] = await segmentsIn('1930-01-01');
+    expect(segment).toMatchObject({ state: 'electrified', electrified_since: '1930-07-01' });
+    expect((await segmentsIn('1931-01-01'))[0].state).toBe('existing');
+    expect((await segmentsIn('1929-01-01'))[0].electrified_since).toBeUndefined();
+  });
+});
@@ -0,0 +1,548 @@
+// Typed queries over the dataset tables. Values are always passed as bound parameters of prepared
+// statements, never spliced into the SQL, and rows are turned into app types by the shared mappers.
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { tableFromIPC } from 'apache-arrow';
+import { Source } from './citations';
+import { Period } from './dates';
+import {
+  Event,
+  Line,
+  LineSegment,
+  Segment,
+  SegmentMetric,
+  SegmentState,
+  SegmentWithState,
+  Station,
+  StationName,
+  StationWithState,
+  Timetable,
+  mapEvent,
+  mapLine,
+  mapLineSegment,
+  mapSegmentMetric,
+  mapSegmentState,
+  mapSource,
+  mapStationName,
+  mapTimetable,
+} from './models';
+import { RowKind } from './packedRows';
+import { RowDecoder } from './rowDecoder';
+
+export interface TypedQuery<Args extends unknown[], Row> {
+  // SQL with positional parameters ($1, $2, ...).
+  sql: string;
+  // Turns the caller's arguments into the parameter values, in order.
+  bind: (...args: Args) => unknown[];
+  // Maps each row here, or names the row kind for the row worker to map off the main thread; used for
+  // the large results with geometries and station records.
+  mapRow: ((row: any) => Row) | RowKind;
+}
+
+const tableQuery = <Row>(sql: string, mapRow: TypedQuery<[], Row>['mapRow']): TypedQuery<[], Row> => ({
+  sql,
+  bind: () => [],
+  mapRow,
+});
+
+const periodQuery = <Row>(sql: string, mapRow: TypedQuery<[Period], Row>['mapRow']): TypedQuery<[Period], Row> => ({
+  sql,
+  bind: ({ start, end }) => [start, end],
+  mapRow,
+});
+
+// Views and lookup tables shared by the queries below, recreated whenever the dataset tables are
+// rebuilt. The lifecycle and change tables are materialized once here so that a period query is a
+// range lookup on them rather than a pass over every event.
+export const createDerivedTables = async (conn: duckdb.AsyncDuckDBConnection) => {
+  // Dates are text and may be partial: '1905', '1905-03' or a full date (optionally with a time).
+  // A partial date stands for its whole year or month, so it starts on the first day and ends on
+  // the last; text that is not a date gives NULL, which callers treat as an open bound.
+  await conn.query(`
+    CREATE OR REPLACE MACRO partial_date_precision(value) AS
+      CASE
+        WHEN regexp_full_match(trim(CAST(value AS VARCHAR)), '\\d{1,4}') THEN 'year'
+        WHEN regexp_full_match(trim(CAST(value AS VARCHAR)), '\\d{1,4}-\\d{1,2}') THEN 'month'
+        ELSE 'day'
+      END;
+  `);
+  await conn.query(`
+    CREATE OR REPLACE MACRO partial_date_start(value) AS
+      CASE partial_date_precision(value)
+        WHEN 'year' THEN TRY_CAST(trim(CAST(value AS VARCHAR)) || '-01-01' AS DATE)
+        WHEN 'month' THEN TRY_CAST(trim(CAST(value AS VARCHAR)) || '-01' AS DATE)
+        ELSE CAST(TRY_CAST(value AS TIMESTAMP) AS DATE)
+      END;
+  `);
+  await conn.query(`
+    CREATE OR REPLACE MACRO partial_date_end(value) AS
+      CASE partial_date_precision(value)
+        WHEN 'year' THEN TRY_CAST(trim(CAST(value AS VARCHAR)) || '-12-31' AS DATE)
+        WHEN 'month' THEN CAST(partial_date_start(value) + INTERVAL 1 MONTH - INTERVAL 1 DAY AS DATE)
+        ELSE CAST(TRY_CAST(value AS TIMESTAMP) AS DATE)
+      END;
+  `);
+  // Each event covers the whole period its date_precision allows: a year-precision opening
+  // stored as 1838-01-01 (or just 1838) spans 1838-01-01..1838-12-31.
+  await conn.query(`
+    CREATE OR REPLACE VIEW event_windows AS
+    SELECT
+      *,
+      CASE date_precision
+        WHEN 'year' THEN CAST(date_trunc('year', partial_date_start(date)) AS DATE)
+        WHEN 'month' THEN CAST(date_trunc('month', partial_date_start(date)) AS DATE)
+        ELSE partial_date_start(date)
+      END AS event_start,
+      CASE date_precision
+        WHEN 'year' THEN CAST(date_trunc('year', partial_date_start(date)) + INTERVAL 1 YEAR - INTERVAL 1 DAY AS DATE)
+        WHEN 'month' THEN CAST(date_trunc('month', partial_date_start(date)) + INTERVAL 1 MONTH - INTERVAL 1 DAY AS DATE)
+        ELSE partial_date_end(date)
+      END AS event_end
+    FROM events;
+  `);
+  // One row per open..close interval of a station or segment, built from the ordered
+  // open/close history. Repeated opens while open and repeated closes while closed are
+  // folded into the running interval; a close with no earlier open yields an interval
+  // with an unknown (NULL) start.
+  await conn.query(`
+    CREATE OR REPLACE VIEW lifecycle_intervals AS
+    WITH lifecycle_events AS (
+      SELECT
+        CASE WHEN event_type LIKE 'station_%' THEN 'station' ELSE 'segment' END AS entity_type,
+        CASE WHEN event_type LIKE 'station_%' THEN station_id ELSE segment_id END AS entity_id,
+        CASE WHEN event_type LIKE '%_open' THEN 'open' ELSE 'close' END AS action,
+        event_start,
+        event_end
+      FROM event_windows
+      WHERE event_type IN ('station_open', 'station_close', 'segment_open', 'segment_close')
+        AND event_start IS NOT NULL
+    ),
+    ordered AS (
+      SELECT
+        *,
+        action = 'open'
+          AND COALESCE(LAG(action) OVER entity_history, 'close') = 'close' AS starts_interval
+      FROM lifecycle_events
+      WINDOW entity_history AS (PARTITION BY entity_type, entity_id ORDER BY event_start, action DESC)
+    ),
+    numbered AS (
+      SELECT
+        *,
+        SUM(CASE WHEN starts_interval THEN 1 ELSE 0 END) OVER (
+          PARTITION BY entity_type, entity_id
+          ORDER BY event_start, action DESC
+          ROWS UNBOUNDED PRECEDING
+        ) AS interval_index
+      FROM ordered
+    ),
+    intervals AS (
+      SELECT
+        entity_type,
+        entity_id,
+        interval_index,
+        MIN(event_start) FILTER (WHERE starts_interval) AS open_start,
+        MIN(event_end) FILTER (WHERE starts_interval) AS open_end,
+        MIN(event_start) FILTER (WHERE action = 'close') AS close_start,
+        MIN(event_end) FILTER (WHERE action = 'close') AS close_end
+      FROM numbered
+      WHERE entity_id IS NOT NULL
+      GROUP BY entity_type, entity_id, interval_index
+    )
+    SELECT
+      *,
+      interval_index > MIN(interval_index) OVER (PARTITION BY entity_type, entity_id) AS is_reopening
+    FROM intervals;
+  `);
+  await conn.query(`
+    CREATE OR REPLACE TABLE station_lifecycle AS
+    SELECT entity_id AS station_id, interval_index, open_start, open_end, close_start, close_end, is_reopening
+    FROM lifecycle_intervals
+    WHERE entity_type = 'station'
+    ORDER BY station_id, interval_index;
+  `);
+  await conn.query(`
+    CREATE OR REPLACE TABLE segment_lifecycle AS
+    SELECT entity_id AS segment_id, interval_index, open_start, open_end, close_start, close_end, is_reopening
+    FROM lifecycle_intervals
+    WHERE entity_type = 'segment'
+    ORDER BY segment_id, interval_index;
+  `);
+  // Electrification and regauging windows, the events that mark a station or segment in the
+  // period they fall in.
+  await conn.query(`
+    CREATE OR REPLACE TABLE station_changes AS
+    SELECT station_id, event_type, event_start, event_end
+    FROM event_windows
+    WHERE station_id IS NOT NULL
+      AND event_type IN ('electrification', 'gauge_change')
+      AND event_start IS NOT NULL
+    ORDER BY event_start;
+  `);
+  await conn.query(`
+    CREATE OR REPLACE TABLE segment_changes AS
+    SELECT segment_id, event_type, event_start, event_end
+    FROM event_windows
+    WHERE segment_id IS NOT NULL
+      AND event_type IN ('electrification', 'gauge_change')
+      AND event_start IS NOT NULL
+    ORDER BY event_start;
+  `);
+  // The tables with validity ranges, with valid_from and valid_to read once into the dates they
+  // stand for, so period queries compare valid_start..valid_end instead of parsing text.
+  for (const table of ['station_names', 'segment_states', 'segment_metrics', 'line_segments']) {
+    await conn.query(`
+      CREATE OR REPLACE TABLE ${table}_windows AS
+      SELECT *, partial_date_start(valid_from) AS valid_start, partial_date_end(valid_to) AS valid_end
+      FROM ${table};
+    `);
+  }
+  // Per-station name lists, so a period query only marks which names are in effect. name_history is
+  // in date order; preferred_names puts dated, official and Russian names first and, among those, the
+  // latest, so in the year of a renaming the new name wins.
+  await conn.query(`
+    CREATE OR REPLACE TABLE station_name_history AS
+    SELECT
+      station_id,
+      list({
+        'name': name,
+        'language': language,
+        'valid_from': valid_from,
+        'valid_to': valid_to,
+        'name_type': name_type,
+        'valid_start': valid_start,
+        'valid_end': valid_end
+      } ORDER BY valid_start NULLS LAST, valid_end NULLS LAST) AS name_history,
+      list({ 'name': name, 'valid_start': valid_start, 'valid_end': valid_end } ORDER BY
+        (valid_from IS NOT NULL OR valid_to IS NOT NULL) DESC, name_type = 'official' DESC, language = 'ru' DESC,
+        valid_start DESC NULLS LAST
+      ) AS preferred_names
+    FROM station_names_windows
+    WHERE station_id IS NOT NULL AND name IS NOT NULL
+    GROUP BY station_id;
+  `);
+  // The gauges a segment may contribute to its two stations, with their validity: segment_states
+  // rows first (source_rank 0), then the gauge of the line the segment belongs to.
+  await conn.query(`
+    CREATE OR REPLACE TABLE station_gauge_windows AS
+    WITH segment_gauges AS (
+      SELECT segment_id, gauge_mm, 0 AS source_rank, valid_start, valid_end
+      FROM segment_states_windows
+      WHERE gauge_mm IS NOT NULL
+      UNION ALL
+      SELECT ls.segment_id, TRY_CAST(l.gauge AS INTEGER) AS gauge_mm, 1 AS source_rank, ls.valid_start, ls.valid_end
+      FROM line_segments_windows ls
+      LEFT JOIN lines l USING (line_id)
+    )
+    SELECT endpoint.station_id, g.*
+    FROM segment_gauges g
+    JOIN (
+      SELECT segment_id, from_station_id AS station_id FROM segments
+      UNION
+      SELECT segment_id, to_station_id AS station_id FROM segments
+    ) endpoint USING (segment_id)
+    WHERE endpoint.station_id IS NOT NULL;
+  `);
+};
+
+// Summarizes a lifecycle table for the period $1..$2: whether the entity is open at some point in
+// it, and whether it opened, reopened or closed during it.
+const lifecycleForPeriod = (table: 'station_lifecycle' | 'segment_lifecycle', idColumn: 'station_id' | 'segment_id') => `
+  SELECT
+    ${idColumn},
+    MIN(open_start) AS first_open_start,
+    BOOL_OR(
+      COALESCE(open_start, DATE '0001-01-01') <= $2::DATE
+        AND (close_end IS NULL OR close_end >= $1::DATE)
+    ) AS active,
+    BOOL_OR(close_start <= $2::DATE AND close_end >= $1::DATE) AS closed_now,
+    BOOL_OR(open_start <= $2::DATE AND open_end >= $1::DATE AND NOT is_reopening) AS opened_now,
+    BOOL_OR(open_start <= $2::DATE AND open_end >= $1::DATE AND is_reopening) AS reopened_now
+  FROM ${table}
+  GROUP BY ${idColumn}
+`;
+
+// Whether a row of a *_windows table is valid at some point in the period $1..$2; a missing or
+// unreadable bound leaves that side open.
+const validDuringPeriod = (alias = '') =>
+  `(COALESCE(${alias}valid_start <= $2::DATE, TRUE) AND COALESCE(${alias}valid_end >= $1::DATE, TRUE))`;
+
+export const allStations = tableQuery<Station>(`SELECT * FROM stations WHERE lat IS NOT NULL AND lon IS NOT NULL;`, 'stations');
+export const allStationNames = tableQuery<StationName>(
+  `SELECT * FROM station_names WHERE station_id IS NOT NULL AND name IS NOT NULL AND language IS NOT NULL;`,
+  mapStationName,
+);
+export const allEvents = tableQuery<Event>(`SELECT * FROM events;`, mapEvent);
+export const allSegments = tableQuery<Segment>(`SELECT * FROM segments;`, 'segments');
+export const allLines = tableQuery<Line>(`SELECT * FROM lines;`, mapLine);
+export const allLineSegments = tableQuery<LineSegment>(`SELECT * FROM line_segments;`, mapLineSegment);
+export const allSegmentStates = tableQuery<SegmentState>(`SELECT * FROM segment_states;`, mapSegmentState);
+export const allSegmentMetrics = tableQuery<SegmentMetric>(`SELECT * FROM segment_metrics;`, mapSegmentMetric);
+export const allSources = tableQuery<Source>(`SELECT * FROM sources ORDER BY source_id;`, mapSource);
+export const allTimetables = tableQuery<Timetable>(
+  `SELECT * FROM timetables ORDER BY valid_from NULLS LAST, timetable_id;`,
+  mapTimetable,
+);
+
+// Stations in the period $1..$2 with their state, the name in use and the gauges meeting there.
+export const stationsForPeriod = periodQuery<StationWithState>(
+  `
+  WITH
+  station_lifecycle_for_period AS (${lifecycleForPeriod('station_lifecycle', 'station_id')}),
+  segment_lifecycle_for_period AS (${lifecycleForPeriod('segment_lifecycle', 'segment_id')}),
+  station_changes_for_period AS (
+    SELECT
+      station_id,
+      BOOL_OR(event_type = 'electrification') AS electrified_now,
+      BOOL_OR(event_type = 'gauge_change') AS gauge_changed
+    FROM station_changes
+    WHERE event_start <= $2::DATE AND event_end >= $1::DATE
+    GROUP BY station_id
+  ),
+  -- The gauge of each open segment at each of its stations: its latest state in the period, else
+  -- the gauge of its latest line.
+  open_segment_gauges AS (
+    SELECT station_id, gauge_mm
+    FROM station_gauge_windows
+    WHERE ${validDuringPeriod()}
+      AND segment_id IN (SELECT segment_id FROM segment_lifecycle_for_period WHERE active)
+    QUALIFY ROW_NUMBER() OVER (
+      PARTITION BY station_id, segment_id
+      ORDER BY source_rank, valid_start DESC NULLS LAST
+    ) = 1
+  ),
+  station_gauges AS (
+    SELECT station_id, list_sort(list_distinct(list(gauge_mm))) AS gauges
+    FROM open_segment_gauges
+    WHERE gauge_mm IS NOT NULL
+    GROUP BY station_id
+  ),
+  station_state AS (
+    SELECT
+      se.*,
+      sc.electrified_now,
+      sc.gauge_changed,
+      sg.gauges,
+      COALESCE(len(sg.gauges) > 1, FALSE) AS break_of_gauge,
+      lc.first_open_start AS effective_open_date,
+      CASE
+        -- created_at is the record's timestamp, not a historical date, so stations without
+        -- open/close history are reported as undated rather than placed in time.
+        WHEN lc.station_id IS NULL THEN 'undated'
+        WHEN NOT lc.active AND lc.first_open_start > $2::DATE THEN 'planned'
+        WHEN NOT lc.active THEN NULL
+        WHEN lc.closed_now THEN 'closed'
+        WHEN se.current_status = 'closed' THEN 'closed'
+        WHEN sc.electrified_now THEN 'electrified'
+        WHEN sc.gauge_changed OR len(sg.gauges) > 1 THEN 'gauge_change'
+        WHEN lc.reopened_now THEN 'reopened'
+        WHEN lc.opened_now THEN 'new'
+        ELSE 'existing'
+      END AS state_label
+    FROM stations se
+    LEFT JOIN station_lifecycle_for_period lc ON lc.station_id = se.station_id
+    LEFT JOIN station_changes_for_period sc ON sc.station_id = se.station_id
+    LEFT JOIN station_gauges sg ON se.station_id = sg.station_id
+    WHERE se.lat IS NOT NULL AND se.lon IS NOT NULL
+  ),
+  station_names_for_period AS (
+    SELECT
+      station_id,
+      list_filter(preferred_names, n -> ${validDuringPeriod('n.')})[1].name AS name_for_year,
+      list_transform(name_history, n -> {
+        'name': n.name,
+        'language': n.language,
+        'valid_from': n.valid_from,
+        'valid_to': n.valid_to,
+        'name_type': n.name_type,
+        'in_effect': ${validDuringPeriod('n.')}
+      }) AS name_history
+    FROM station_name_history
+  )
+  SELECT ss.*, sn.name_for_year, sn.name_history
+  FROM station_state ss
+  LEFT JOIN station_names_for_period sn ON ss.station_id = sn.station_id
+  WHERE ss.state_label IS NOT NULL;
+  `,
+  'stationsWithState',
+);
+
+// Segments in the period $1..$2 with their state, line, attributes and metrics in effect.
+export const segmentsForPeriod = periodQuery<SegmentWithState>(
+  `
+  WITH
+  segment_lifecycle_for_period AS (${lifecycleForPeriod('segment_lifecycle', 'segment_id')}),
+  -- Only electrifications up to the end of the period, so electrified_since never lies after it.
+  electrified_dates AS (
+    SELECT
+      segment_id,
+      MAX(event_start) AS electrified_since,
+      BOOL_OR(event_end >= $1::DATE) AS electrified_now
+    FROM segment_changes
+    WHERE event_type = 'electrification' AND event_start <= $2::DATE
+    GROUP BY segment_id
+  ),
+  segment_lines AS (
+    SELECT
+      ls.segment_id,
+      l.line_id,
+      l.name_primary AS line_name,
+      l.operator AS line_operator,
+      l.gauge AS line_gauge
+    FROM line_segments_windows ls
+    JOIN lines l USING (line_id)
+    WHERE ${validDuringPeriod('ls.')}
+    QUALIFY ROW_NUMBER() OVER (PARTITION BY ls.segment_id ORDER BY ls.valid_start DESC NULLS LAST) = 1
+  ),
+  gauge_changes AS (
+    SELECT segment_id, MAX(previous_gauge_mm) AS previous_gauge_mm
+    FROM (
+      SELECT segment_id, NULL::INTEGER AS previous_gauge_mm
+      FROM segment_changes
+      WHERE event_type = 'gauge_change'
+        AND event_start <= $2::DATE
+        AND event_end >= $1::DATE
+      UNION ALL
+      SELECT segment_id, previous_gauge_mm
+      FROM (
+        SELECT
+          segment_id,
+          valid_start,
+          gauge_mm,
+          LAG(gauge_mm) OVER (PARTITION BY segment_id ORDER BY valid_start) AS previous_gauge_mm
+        FROM segment_states_windows
+        WHERE gauge_mm IS NOT NULL
+      )
+      WHERE previous_gauge_mm IS NOT NULL
+        AND previous_gauge_mm <> gauge_mm
+        AND valid_start BETWEEN $1::DATE AND $2::DATE
+    )
+    GROUP BY segment_id
+  ),
+  segment_attributes AS (
+    SELECT
+      segment_id,
+      gauge_mm,
+      track_count,
+      electrified,
+      electrification_system,
+      electrification_voltage_kv,
+      power_supply_type,
+      max_speed_kmh,
+      signalling_system,
+      ownership_type
+    FROM segment_states_windows
+    WHERE ${validDuringPeriod()}
+    QUALIFY ROW_NUMBER() OVER (PARTITION BY segment_id ORDER BY valid_start DESC NULLS LAST) = 1
+  ),
+  segment_metrics_for_year AS (
+    SELECT
+      segment_id,
+      length_km,
+      length_method,
+      passenger_time_min,
+      express_time_min,
+      freight_time_min,
+      speed_class,
+      timetable_id
+    FROM segment_metrics_windows
+    WHERE ${validDuringPeriod()}
+    QUALIFY ROW_NUMBER() OVER (PARTITION BY segment_id ORDER BY valid_start DESC NULLS LAST) = 1
+  ),
+  segment_state AS (
+    SELECT
+      b.segment_id,
+      b.from_station_id,
+      b.to_station_id,
+      CAST(b.geometry AS VARCHAR) AS geometry_json,
+      b.geometry_quality,
+      CAST(el.electrified_since AS VARCHAR) AS electrified_since,
+      sl.line_id,
+      sl.line_name,
+      sl.line_operator,
+      sl.line_gauge,
+      sa.gauge_mm,
+      sa.track_count,
+      sa.electrified,
+      sa.electrification_system,
+      sa.electrification_voltage_kv,
+      sa.power_supply_type,
+      sa.max_speed_kmh,
+      sa.signalling_system,
+      sa.ownership_type,
+      gc.previous_gauge_mm,
+      sm.length_km,
+      sm.length_method,
+      sm.passenger_time_min,
+      sm.express_time_min,
+      sm.freight_time_min,
+      sm.speed_class,
+      sm.timetable_id,
+      CASE
+        WHEN lc.segment_id IS NULL THEN 'undated'
+        WHEN NOT lc.active AND lc.first_open_start > $2::DATE THEN 'planned'
+        WHEN NOT lc.active THEN NULL
+        WHEN lc.closed_now THEN 'closed'
+        WHEN el.electrified_now THEN 'electrified'
+        WHEN gc.segment_id IS NOT NULL THEN 'gauge_change'
+        WHEN lc.reopened_now THEN 'reopened'
+        WHEN lc.opened_now THEN 'new'
+        ELSE 'existing'
+      END AS state_label
+    FROM segments b
+    LEFT JOIN segment_lifecycle_for_period lc USING (segment_id)
+    LEFT JOIN electrified_dates el USING (segment_id)
+    LEFT JOIN segment_lines sl USING (segment_id)
+    LEFT JOIN segment_attributes sa USING (segment_id)
+    LEFT JOIN gauge_changes gc USING (segment_id)
+    LEFT JOIN segment_metrics_for_year sm USING (segment_id)
+  )
+  SELECT * FROM segment_state
+  WHERE state_label IS NOT NULL;
+  `,
+  'segmentsWithState',
+);
+
+// Runs typed queries on one connection, preparing each statement once and reusing it. Results come
+// back as Arrow IPC bytes, which are decoded here or handed to the row decoder's worker.
+export const createQueryRunner = (conn: duckdb.AsyncDuckDBConnection, rowDecoder: RowDecoder) => {
+  const statements = new Map<string, Promise<number>>();
+
+  const prepare = (sql: string) => {
+    let statement = statements.get(sql);
+    if (!statement) {
+      statement = conn.useUnsafe((bindings, connection) => bindings.createPrepared(connection, sql));
+      statements.set(sql, statement);
+      // A statement that failed to prepare is retried on the next call.
+      statement.catch(() => statements.delete(sql));
+    }
+    return statement;
+  };
+
+  const run = async <Args extends unknown[], Row>(query: TypedQuery<Args, Row>, ...args: Args): Promise<Row[]> => {
+    const statement = await prepare(query.sql);
+    const ipc = await conn.useUnsafe((bindings, connection) =>
+      bindings.runPrepared(connection, statement, query.bind(...args)),
+    );
+    if (typeof query.mapRow === 'string') {
+      return (await rowDecoder.decode(query.mapRow, ipc)) as Row[];
+    }
+    return tableFromIPC(ipc).toArray().map(query.mapRow);
+  };
+
+  // Closes the prepared statements, e.g. before the tables they read are replaced.
+  const reset = async () => {
+    const prepared = [...statements.values()];
+    statements.clear();
+    await Promise.all(
+      prepared.map(statement =>
+        statement.then(
+          id => conn.useUnsafe((bindings, connection) => bindings.closePrepared(connection, id)),
+          () => undefined,
+        ),
+      ),
+    );
+  };
+
+  return { run, reset };
+};
+
+export type QueryRunner = ReturnType<typeof createQueryRunner>;
@@ -0,0 +1,40 @@
+import { RowKind, RowKinds, unpackSegments, unpackStations } from './packedRows';
+import type { RowWorkerRequest, RowWorkerResponse } from './rowWorker';
+
+// Main-thread side of the row worker: sends it query results and turns its packed replies back into
+// app types. The IPC bytes are transferred, so the caller must not use them afterwards.
+export const createRowDecoder = () => {
+  const worker = new Worker(new URL('./rowWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (rows: any[]) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = ({ data }: MessageEvent<RowWorkerResponse>) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if ('error' in data) {
+      request.reject(new Error(data.error));
+    } else if ('offsets' in data.packed) {
+      request.resolve(unpackSegments(data.packed));
+    } else {
+      request.resolve(unpackStations(data.packed));
+    }
+  };
+
+  const decode = <K extends RowKind>(kind: K, ipc: Uint8Array) =>
+    new Promise<RowKinds[K][]>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ id, kind, ipc } satisfies RowWorkerRequest, [ipc.buffer]);
+    });
+
+  const terminate = () => {
+    worker.terminate();
+    pending.forEach(request => request.reject(new Error('Row decoder was terminated')));
+    pending.clear();
+  };
+
+  return { decode, terminate };
+};
+
+export type RowDecoder = ReturnType<typeof createRowDecoder>;
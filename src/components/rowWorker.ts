@@ -0,0 +1,30 @@
+// Decodes query results (Arrow IPC bytes) and maps their rows off the main thread, so parsing segment
+// geometries does not block the map while the period changes.
+import { tableFromIPC } from 'apache-arrow';
+import { mapSegment, mapSegmentWithState, mapStation, mapStationWithState } from './models';
+import { PackedRows, RowKind, packSegments, packStations, transferablesOf } from './packedRows';
+
+export interface RowWorkerRequest {
+  id: number;
+  kind: RowKind;
+  ipc: Uint8Array;
+}
+
+export type RowWorkerResponse = { id: number; packed: PackedRows } | { id: number; error: string };
+
+const PACKERS: Record<RowKind, (rows: any[]) => PackedRows> = {
+  stations: rows => packStations(rows.map(mapStation)),
+  stationsWithState: rows => packStations(rows.map(mapStationWithState)),
+  segments: rows => packSegments(rows.map(mapSegment)),
+  segmentsWithState: rows => packSegments(rows.map(mapSegmentWithState)),
+};
+
+self.onmessage = ({ data }: MessageEvent<RowWorkerRequest>) => {
+  const { id, kind, ipc } = data;
+  try {
+    const packed = PACKERS[kind](tableFromIPC(ipc).toArray());
+    self.postMessage({ id, packed } satisfies RowWorkerResponse, { transfer: transferablesOf(packed) });
+  } catch (err: any) {
+    self.postMessage({ id, error: err?.message || String(err) } satisfies RowWorkerResponse);
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { SIMPLIFICATION_BANDS, simplifyForBands, simplifyLine, zoomBand } from './simplify';
+
+describe('simplifyLine', () => {
+  it('drops points on the line between their neighbours', () => {
+    const points: [number, number][] = [
+      [55.0, 37.0],
+      [55.5, 37.5],
+      [56.0, 38.0],
+    ];
+    expect(simplifyLine(points, 0.001)).toEqual([
+      [55.0, 37.0],
+      [56.0, 38.0],
+    ]);
+  });
+
+  it('keeps points farther from the line than the tolerance', () => {
+    const points: [number, number][] = [
+      [55.0, 37.0],
+      [55.2, 37.5],
+      [55.0, 38.0],
+    ];
+    expect(simplifyLine(points, 0.1)).toEqual(points);
+    expect(simplifyLine(points, 0.3)).toEqual([
+      [55.0, 37.0],
+      [55.0, 38.0],
+    ]);
+  });
+
+  it('leaves lines of two points and a zero tolerance unchanged', () => {
+    const points: [number, number][] = [
+      [55.0, 37.0],
+      [55.5, 37.5],
+      [56.0, 38.0],
+    ];
+    expect(simplifyLine(points.slice(0, 2), 1)).toEqual(points.slice(0, 2));
+    expect(simplifyLine(points, 0)).toBe(points);
+  });
+});
+
+describe('zoomBand', () => {
+  it('picks the first band whose highest zoom covers the zoom', () => {
+    expect(zoomBand(3)).toBe(0);
+    expect(zoomBand(5)).toBe(0);
+    expect(zoomBand(6)).toBe(1);
+    expect(zoomBand(10)).toBe(2);
+    expect(zoomBand(18)).toBe(SIMPLIFICATION_BANDS.length - 1);
+  });
+});
+
+describe('simplifyForBands', () => {
+  it('simplifies each line for every band and keeps the full line for the last one', () => {
+    const line: [number, number][] = [
+      [55.0, 37.0],
+      [55.001, 37.5],
+      [55.0, 38.0],
+    ];
+    const bands = simplifyForBands([line]);
+    expect(bands).toHaveLength(SIMPLIFICATION_BANDS.length);
+    expect(bands[0]).toEqual([[line[0], line[2]]]);
+    expect(bands[SIMPLIFICATION_BANDS.length - 1]).toEqual([line]);
+  });
+});
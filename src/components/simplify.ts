@@ -0,0 +1,61 @@
+// Tolerances (degrees) for the zoom bands segments are drawn at: about half a screen pixel at the
+// band's highest zoom, so the simplification is not visible. Past the last band the full geometry is used.
+export const SIMPLIFICATION_BANDS = [
+  { maxZoom: 5, tolerance: 0.02 },
+  { maxZoom: 7, tolerance: 0.005 },
+  { maxZoom: 10, tolerance: 0.0007 },
+  { maxZoom: Infinity, tolerance: 0 },
+];
+
+export const zoomBand = (zoom: number) => SIMPLIFICATION_BANDS.findIndex(band => zoom <= band.maxZoom);
+
+// Squared distance from p to the line a-b, with longitudes scaled by cos(latitude) so that
+// tolerances mean the same in both directions.
+const squaredDistanceToLine = (p: [number, number], a: [number, number], b: [number, number], lonScale: number) => {
+  const [py, px] = [p[0], p[1] * lonScale];
+  const [ay, ax] = [a[0], a[1] * lonScale];
+  const [by, bx] = [b[0], b[1] * lonScale];
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  const x = ax + t * dx - px;
+  const y = ay + t * dy - py;
+  return x * x + y * y;
+};
+
+// Douglas–Peucker on [lat, lon] points. The first and last points are always kept unchanged, so a
+// simplified segment still ends exactly on its stations.
+export const simplifyLine = (points: [number, number][], tolerance: number): [number, number][] => {
+  if (points.length <= 2 || tolerance <= 0) return points;
+
+  const lonScale = Math.cos((points[0][0] * Math.PI) / 180);
+  const toleranceSquared = tolerance * tolerance;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = toleranceSquared;
+    for (let i = first + 1; i < last; i++) {
+      const distance = squaredDistanceToLine(points[i], points[first], points[last], lonScale);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index] === 1);
+};
+
+// The lines of a geometry for every band, indexed like SIMPLIFICATION_BANDS.
+export const simplifyForBands = (lines: [number, number][][]) =>
+  SIMPLIFICATION_BANDS.map(band => lines.map(points => simplifyLine(points, band.tolerance)));
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { BoundingBox, createGridIndex, lineBox, pointBox } from './spatialIndex';
+
+describe('lineBox', () => {
+  it('spans every point of the line', () => {
+    expect(
+      lineBox([
+        [55.776, 37.655],
+        [56.858, 35.9],
+        [56.2, 36.5],
+      ]),
+    ).toEqual({ south: 55.776, west: 35.9, north: 56.858, east: 37.655 });
+  });
+
+  it('has no box for a line without points', () => {
+    expect(lineBox([])).toBeNull();
+  });
+});
+
+describe('createGridIndex', () => {
+  const items: { id: string; box: BoundingBox | null }[] = [
+    { id: 'moscow', box: pointBox(55.776, 37.655) },
+    { id: 'tver', box: pointBox(56.858, 35.9) },
+    { id: 'moscow-tver', box: { south: 55.776, west: 35.9, north: 56.858, east: 37.655 } },
+    { id: 'volgograd', box: pointBox(48.708, 44.514) },
+    { id: 'unplaced', box: null },
+  ];
+  const index = createGridIndex(items, item => item.box);
+  const idsIn = (box: BoundingBox) => index.search(box).map(item => item.id).sort();
+
+  it('finds the items whose boxes intersect the searched box', () => {
+    expect(idsIn({ south: 55.5, west: 37.5, north: 56.0, east: 38.0 })).toEqual(['moscow', 'moscow-tver']);
+    expect(idsIn({ south: 48.0, west: 44.0, north: 49.0, east: 45.0 })).toEqual(['volgograd']);
+  });
+
+  it('lists an item spanning several cells once', () => {
+    expect(idsIn({ south: 50.0, west: 30.0, north: 60.0, east: 40.0 })).toEqual(['moscow', 'moscow-tver', 'tver']);
+  });
+
+  it('finds nothing outside the indexed items', () => {
+    expect(idsIn({ south: 60.0, west: 100.0, north: 61.0, east: 101.0 })).toEqual([]);
+  });
+});
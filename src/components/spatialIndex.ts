@@ -0,0 +1,76 @@
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface GridIndex<T> {
+  search: (box: BoundingBox) => T[];
+}
+
+const intersects = (a: BoundingBox, b: BoundingBox) =>
+  a.south <= b.north && a.north >= b.south && a.west <= b.east && a.east >= b.west;
+
+export const pointBox = (lat: number, lon: number): BoundingBox => ({ south: lat, west: lon, north: lat, east: lon });
+
+export const lineBox = (points: [number, number][]): BoundingBox | null => {
+  if (points.length === 0) return null;
+  const box = pointBox(points[0][0], points[0][1]);
+  points.forEach(([lat, lon]) => {
+    box.south = Math.min(box.south, lat);
+    box.north = Math.max(box.north, lat);
+    box.west = Math.min(box.west, lon);
+    box.east = Math.max(box.east, lon);
+  });
+  return box;
+};
+
+// Uniform grid over latitude/longitude: each item is listed in every cell its bounding box touches,
+// so a search only visits the cells under the queried box. Items without a box are not indexed.
+export const createGridIndex = <T>(items: T[], boxOf: (item: T) => BoundingBox | null, cellDegrees = 1): GridIndex<T> => {
+  const cells = new Map<number, { item: T; box: BoundingBox }[]>();
+  const extent = { minRow: Infinity, maxRow: -Infinity, minCol: Infinity, maxCol: -Infinity };
+
+  // Columns stay below 4096 for any longitude Leaflet reports, so row and column fit in one number.
+  const cellKey = (row: number, col: number) => row * 4096 + col;
+  const rowOf = (lat: number) => Math.floor((lat + 90) / cellDegrees);
+  const colOf = (lon: number) => Math.floor((lon + 540) / cellDegrees);
+
+  items.forEach(item => {
+    const box = boxOf(item);
+    if (!box) return;
+    const entry = { item, box };
+    for (let row = rowOf(box.south); row <= rowOf(box.north); row++) {
+      for (let col = colOf(box.west); col <= colOf(box.east); col++) {
+        const key = cellKey(row, col);
+        const cell = cells.get(key);
+        if (cell) {
+          cell.push(entry);
+        } else {
+          cells.set(key, [entry]);
+        }
+        extent.minRow = Math.min(extent.minRow, row);
+        extent.maxRow = Math.max(extent.maxRow, row);
+        extent.minCol = Math.min(extent.minCol, col);
+        extent.maxCol = Math.max(extent.maxCol, col);
+      }
+    }
+  });
+
+  const search = (box: BoundingBox) => {
+    const found = new Set<T>();
+    const lastRow = Math.min(rowOf(box.north), extent.maxRow);
+    const lastCol = Math.min(colOf(box.east), extent.maxCol);
+    for (let row = Math.max(rowOf(box.south), extent.minRow); row <= lastRow; row++) {
+      for (let col = Math.max(colOf(box.west), extent.minCol); col <= lastCol; col++) {
+        cells.get(cellKey(row, col))?.forEach(entry => {
+          if (intersects(entry.box, box)) found.add(entry.item);
+        });
+      }
+    }
+    return [...found];
+  };
+
+  return { search };
+};
@@ -0,0 +1,58 @@
+import { BoundingBox, pointBox } from './spatialIndex';
+
+export interface PointCluster<T> {
+  key: string;
+  lat: number;
+  lon: number;
+  members: T[];
+  bounds: BoundingBox;
+}
+
+// Web Mercator pixel position at the given zoom, as Leaflet projects it with 256px tiles.
+const projectToPixels = (lat: number, lon: number, zoom: number) => {
+  const scale = 256 * 2 ** zoom;
+  const sin = Math.sin((Math.max(Math.min(lat, 85.0511), -85.0511) * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+// Groups points that fall in the same square of cellPixels on screen at this zoom. A square holding
+// a single point leaves it unclustered.
+export const clusterPoints = <T extends { lat: number; lon: number }>(points: T[], zoom: number, cellPixels: number) => {
+  const cells = new Map<string, T[]>();
+  points.forEach(point => {
+    const { x, y } = projectToPixels(point.lat, point.lon, zoom);
+    const key = `${Math.floor(x / cellPixels)}:${Math.floor(y / cellPixels)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  });
+
+  const singles: T[] = [];
+  const clusters: PointCluster<T>[] = [];
+  cells.forEach((members, key) => {
+    if (members.length === 1) {
+      singles.push(members[0]);
+      return;
+    }
+    const bounds = pointBox(members[0].lat, members[0].lon);
+    let latSum = 0;
+    let lonSum = 0;
+    members.forEach(({ lat, lon }) => {
+      latSum += lat;
+      lonSum += lon;
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.west = Math.min(bounds.west, lon);
+      bounds.east = Math.max(bounds.east, lon);
+    });
+    clusters.push({ key, lat: latSum / members.length, lon: lonSum / members.length, members, bounds });
+  });
+
+  return { singles, clusters };
+};